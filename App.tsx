@@ -1,93 +1,478 @@
-import React, { useState, useEffect } from 'react';
-import { MessageSquare, Upload, Settings, Zap, Database, ExternalLink } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { MessageSquare, Upload, Settings, Zap, Database, ExternalLink, Server, RotateCcw, Library, Square, Menu, X } from 'lucide-react';
 import { FileUploader } from './components/FileUploader';
+import { UrlSourceInput } from './components/UrlSourceInput';
 import { ChatInterface } from './components/ChatInterface';
 import { SettingsModal } from './components/SettingsModal';
+import { SessionSidebar } from './components/SessionSidebar';
+import { KnowledgeBaseManager } from './components/KnowledgeBaseManager';
+import { OutboxPanel } from './components/OutboxPanel';
+import { IngestionLogPanel } from './components/IngestionLogPanel';
+import { TranscriptImportDialog } from './components/TranscriptImportDialog';
 import { sendChatMessage, uploadFilesToWebhook } from './services/n8nService';
-import { ChatMessage, FileUploadItem, MessageRole, WebhookConfig } from './types';
-import { DEFAULT_CONFIG, LOCAL_STORAGE_CONFIG_KEY } from './constants';
+import { createSession, deleteSession, deriveSessionTitle, loadSessions, saveSession } from './services/sessionStore';
+import { getActiveProfile, loadProfileState, saveProfileState } from './services/profileStore';
+import { getOutcomeStatus, isFileDelivered, isFileFailed } from './services/ingestionResults';
+import { hashFile, recordIngestedFiles } from './services/fileValidation';
+import { ingestUrlSource, toUrlSource } from './services/urlIngestion';
+import { buildRecords, importTableFile, ingestRecords, sendsAsRecords } from './services/structuredData';
+import {
+  BatchEnd,
+  createIngestionLogEntry,
+  deleteIngestionLogEntry,
+  loadIngestionLog,
+  LoggedBatch,
+  recordOutboxDelivery,
+  saveIngestionLogEntry
+} from './services/ingestionLog';
+import {
+  createChatOutboxEntry,
+  createIngestionOutboxEntry,
+  deleteOutboxEntry,
+  getRetryDelay,
+  loadOutbox,
+  saveOutboxEntry
+} from './services/outboxStore';
+import { getErrorAdvice, getErrorKind, WebhookUnreachableError } from './services/errors';
+import { exportTranscript, TranscriptFormat } from './services/transcripts';
+import { buildHistoryWindow } from './services/historyWindow';
+import { submitFeedback } from './services/feedbackService';
+import { chunkSections } from './utils/chunking';
+import { createId } from './utils/id';
+import { branchFrom, switchVersion } from './utils/branches';
+import {
+  ChatMessage,
+  ChatOutboxEntry,
+  ChatSession,
+  FeedbackRating,
+  FileUploadItem,
+  FileUploadOutcome,
+  IngestionLogEntry,
+  IngestionOutboxEntry,
+  MessageFeedback,
+  MessageRole,
+  OutboxEntry,
+  ProfileState,
+  UrlIngestionOutcome,
+  UrlSourceItem,
+  WebhookConfig
+} from './types';
+import { LOCAL_STORAGE_ACTIVE_SESSION_KEY } from './constants';
 
 enum Tab {
   UPLOAD = 'upload',
+  DOCUMENTS = 'documents',
   CHAT = 'chat'
 }
 
 const App: React.FC = () => {
   const [activeTab, setActiveTab] = useState<Tab>(Tab.UPLOAD);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
-  const [config, setConfig] = useState<WebhookConfig>(DEFAULT_CONFIG);
+  const [profileState, setProfileState] = useState<ProfileState>(loadProfileState);
+  const config = getActiveProfile(profileState);
   
   // Upload State
   const [files, setFiles] = useState<FileUploadItem[]>([]);
   const [textContext, setTextContext] = useState('');
   const [isProcessingUpload, setIsProcessingUpload] = useState(false);
   const [uploadStatus, setUploadStatus] = useState<{success: boolean, message: string} | null>(null);
+  const uploadAbortRef = useRef<AbortController | null>(null);
+  // Files that failed validation stay listed with their reason but are never sent
+  const acceptedFiles = files.filter(f => f.status !== 'invalid');
+  const [urlSources, setUrlSources] = useState<UrlSourceItem[]>([]);
+  const [ingestionLog, setIngestionLog] = useState<IngestionLogEntry[]>([]);
+  const [rerunningBatchId, setRerunningBatchId] = useState<string | null>(null);
 
   // Chat State
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
-  const [isChatLoading, setIsChatLoading] = useState(false);
+  const [sessions, setSessions] = useState<ChatSession[]>([]);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  const [loadingSessionIds, setLoadingSessionIds] = useState<string[]>([]);
+  // Session list as a drawer on screens too narrow for the sidebar
+  const [isSessionDrawerOpen, setIsSessionDrawerOpen] = useState(false);
+  const chatAbortRef = useRef<Map<string, AbortController>>(new Map());
+  // Latest sessions for long-running sends (outbox, replay) that outlive a render
+  const sessionsRef = useRef(sessions);
+  sessionsRef.current = sessions;
+  // Files sent with each user message, for retries and edits (not persisted)
+  const attachmentFilesRef = useRef<Map<string, File[]>>(new Map());
+  // Parsed transcript waiting for the user to choose continue or replay
+  const [importedSession, setImportedSession] = useState<ChatSession | null>(null);
+  // updatedAt of each session as last written to IndexedDB
+  const persistedAtRef = useRef<Map<string, number>>(new Map());
 
-  // Load Config
+  // Outbox State
+  const [outbox, setOutbox] = useState<OutboxEntry[]>([]);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  // Bumped to re-run the outbox loop when a retry timer fires or a delivery ends
+  const [outboxWakeUp, setOutboxWakeUp] = useState(0);
+  const outboxBusyRef = useRef(false);
+
+  const activeSession = sessions.find(s => s.id === activeSessionId);
+  const messages = activeSession?.messages ?? [];
+  const isChatLoading = !!activeSessionId && loadingSessionIds.includes(activeSessionId);
+
+  const updateProfileState = (next: ProfileState) => {
+    saveProfileState(next);
+    setProfileState(next);
+  };
+
+  // Load Chat Sessions
   useEffect(() => {
-    const stored = localStorage.getItem(LOCAL_STORAGE_CONFIG_KEY);
-    if (stored) {
-      try {
-        const parsed = JSON.parse(stored);
-        // Fallback to DEFAULT_CONFIG if stored values are empty strings
-        setConfig({
-          ingestionUrl: parsed.ingestionUrl || DEFAULT_CONFIG.ingestionUrl,
-          chatUrl: parsed.chatUrl || DEFAULT_CONFIG.chatUrl
-        });
-      } catch (e) {
-        console.error("Error parsing config", e);
-        setConfig(DEFAULT_CONFIG);
-      }
-    }
+    const startFresh = () => {
+      const session = createSession();
+      setSessions([session]);
+      setActiveSessionId(session.id);
+    };
+
+    loadSessions()
+      .then(stored => {
+        if (stored.length === 0) return startFresh();
+        stored.forEach(session => persistedAtRef.current.set(session.id, session.updatedAt));
+        const lastActiveId = localStorage.getItem(LOCAL_STORAGE_ACTIVE_SESSION_KEY);
+        setSessions(stored);
+        setActiveSessionId(stored.some(s => s.id === lastActiveId) ? lastActiveId : stored[0].id);
+      })
+      .catch(e => {
+        console.error("Error loading chat sessions", e);
+        startFresh();
+      });
   }, []);
 
-  const getN8nErrorAdvice = (errorMsg: string) => {
-    if (errorMsg.includes("Unused Respond to Webhook node")) {
-        return "N8N CONFIG ERROR: Open your N8N Webhook Node and change 'Respond' to 'Using Respond to Webhook Node'.";
+  // Persist sessions that changed (skipping empty drafts and replies still streaming)
+  useEffect(() => {
+    sessions.forEach(session => {
+      if (session.messages.length === 0 && !session.titleEdited) return;
+      if (session.messages.some(m => m.isStreaming)) return;
+      if (persistedAtRef.current.get(session.id) === session.updatedAt) return;
+
+      persistedAtRef.current.set(session.id, session.updatedAt);
+      saveSession(session).catch(e => console.error("Error saving chat session", e));
+    });
+  }, [sessions]);
+
+  // Load the outbox and retry everything as soon as connectivity returns
+  useEffect(() => {
+    loadOutbox()
+      .then(setOutbox)
+      .catch(e => console.error("Error loading outbox", e));
+
+    const handleOnline = () => {
+      setIsOnline(true);
+      setOutbox(prev => prev.map(e => e.status === 'pending' ? { ...e, nextAttemptAt: Date.now() } : e));
+    };
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  useEffect(() => {
+    loadIngestionLog()
+      .then(setIngestionLog)
+      .catch(e => console.error("Error loading ingestion log", e));
+  }, []);
+
+  useEffect(() => {
+    if (activeSessionId) {
+      localStorage.setItem(LOCAL_STORAGE_ACTIVE_SESSION_KEY, activeSessionId);
     }
-    return null;
+  }, [activeSessionId]);
+
+  const updateSessionMessages = (sessionId: string, updater: (prev: ChatMessage[]) => ChatMessage[]) => {
+    setSessions(prev => prev.map(session => {
+      if (session.id !== sessionId) return session;
+      const nextMessages = updater(session.messages);
+      return {
+        ...session,
+        messages: nextMessages,
+        updatedAt: Date.now(),
+        title: session.titleEdited ? session.title : deriveSessionTitle(nextMessages)
+      };
+    }));
+  };
+
+  const handleCreateSession = () => {
+    setIsSessionDrawerOpen(false);
+    // Reuse the current chat if it is still empty
+    if (activeSession && activeSession.messages.length === 0) return;
+    const session = createSession();
+    setSessions(prev => [session, ...prev]);
+    setActiveSessionId(session.id);
+  };
+
+  const handleSelectSession = (sessionId: string) => {
+    setActiveSessionId(sessionId);
+    setIsSessionDrawerOpen(false);
+  };
+
+  const handleRenameSession = (sessionId: string, title: string) => {
+    setSessions(prev => prev.map(s => s.id === sessionId ? { ...s, title, titleEdited: true, updatedAt: Date.now() } : s));
   };
 
-  const handleUpload = async () => {
-    if (files.length === 0 && !textContext.trim()) return;
+  const handleDeleteSession = (sessionId: string) => {
+    chatAbortRef.current.get(sessionId)?.abort();
+    persistedAtRef.current.delete(sessionId);
+    deleteSession(sessionId).catch(e => console.error("Error deleting chat session", e));
+    outbox
+      .filter(e => e.kind === 'chat' && e.sessionId === sessionId)
+      .forEach(e => removeOutboxEntry(e.id));
+
+    const remaining = sessions
+      .filter(s => s.id !== sessionId)
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+    if (remaining.length === 0) {
+      const session = createSession();
+      setSessions([session]);
+      setActiveSessionId(session.id);
+      return;
+    }
+    setSessions(remaining);
+    if (sessionId === activeSessionId) {
+      setActiveSessionId(remaining[0].id);
+    }
+  };
+
+  /**
+   * Sends every file and web page that has not reached N8N yet, or with `onlyFailed`
+   * just the ones that were rejected or errored last time.
+   * Files that cannot reach the webhook are moved to the outbox; web pages and files
+   * sent as JSON records are not queued, so they stay in the list to be sent again.
+   */
+  const handleUpload = async (onlyFailed = false) => {
+    if (acceptedFiles.length === 0 && urlSources.length === 0 && !textContext.trim()) return;
     if (!config.ingestionUrl) {
       setIsSettingsOpen(true);
       return;
     }
 
+    const shouldSend = (status: FileUploadItem['status']) => onlyFailed ? isFileFailed(status) : !isFileDelivered(status);
+    const itemsToSend = acceptedFiles.filter(f => !sendsAsRecords(f) && shouldSend(f.status));
+    const sendIds = itemsToSend.map(f => f.id);
+    const recordItems = acceptedFiles.filter(f => sendsAsRecords(f) && shouldSend(f.status));
+    // Record files follow the uploaded ones in the batch (and its log entry)
+    const batchItems = [...itemsToSend, ...recordItems];
+    const batchIds = batchItems.map(f => f.id);
+    const urlsToSend = urlSources.filter(u => shouldSend(u.status));
+    const urlIds = urlsToSend.map(u => u.id);
+    if ((acceptedFiles.length > 0 || urlSources.length > 0) && batchItems.length === 0 && urlsToSend.length === 0) return;
+    // The text context goes with the records and web pages, so a separate text-only request is not needed
+    const sendsFiles = itemsToSend.length > 0 || (recordItems.length === 0 && urlsToSend.length === 0);
+
+    // Retries of this batch (automatic or from the outbox) reuse these keys
+    const batchId = createId();
+    const loggedBatch: LoggedBatch = {
+      batchId,
+      startedAt: Date.now(),
+      profile: config,
+      textContext,
+      files: batchItems.map(f => f.file),
+      hashes: batchItems.map(f => f.hash),
+      mappings: recordItems.length > 0 ? batchItems.map(f => sendsAsRecords(f) ? f.table!.mapping : undefined) : undefined,
+      urls: urlsToSend.length > 0 ? urlsToSend.map(toUrlSource) : undefined
+    };
+    const idempotencyKeys = itemsToSend.map((_, index) => `${batchId}:${index}`);
+    const documentChunks = config.preprocessing.enabled
+      ? itemsToSend.map(f => f.extraction?.status === 'done'
+        ? chunkSections(f.extraction.sections, config.preprocessing.chunkSize, config.preprocessing.chunkOverlap)
+        : undefined)
+      : undefined;
+
+    const queueIngestion = (indexes: number[], error?: string) => {
+      putOutboxEntry({
+        ...createIngestionOutboxEntry({
+          profileId: config.id,
+          batchId,
+          idempotencyKeys: indexes.map(i => idempotencyKeys[i]),
+          // The text context went out with the first file, unless that file is among the queued ones
+          textContext: indexes.length === 0 || indexes.includes(0) ? textContext : '',
+          files: indexes.map(i => itemsToSend[i].file),
+          documentChunks: documentChunks && indexes.map(i => documentChunks[i])
+        }),
+        lastError: error
+      });
+      const queuedIds = indexes.map(i => sendIds[i]);
+      setFiles(prev => prev.filter(f => !queuedIds.includes(f.id)));
+    };
+    const queuedMessage = (count: number) => count > 0
+      ? `${count} file(s) could not reach N8N and were moved to the outbox. They will be sent automatically.`
+      : 'N8N is unreachable. The text context was moved to the outbox and will be sent automatically.';
+
+    if (!navigator.onLine) {
+      const keptCount = recordItems.length + urlsToSend.length;
+      const keptMessage = keptCount > 0 ? `${keptCount} web page(s) and record file(s) are not queued, so they were left in the list. Send them again once you are back online.` : '';
+      if (!sendsFiles) {
+        setUploadStatus({ success: false, message: `You are offline. ${keptMessage}` });
+        return;
+      }
+      logIngestion({ ...loggedBatch, files: loggedBatch.files.slice(0, itemsToSend.length), mappings: undefined, urls: undefined }, { queued: true });
+      queueIngestion(itemsToSend.map((_, i) => i));
+      if (keptCount === 0) setTextContext('');
+      setUploadStatus({ success: false, message: `You are offline. ${queuedMessage(itemsToSend.length)} ${keptMessage}`.trim() });
+      return;
+    }
+
+    const controller = new AbortController();
+    uploadAbortRef.current = controller;
     setIsProcessingUpload(true);
     setUploadStatus(null);
-    
-    // Update local file status
-    setFiles(prev => prev.map(f => ({ ...f, status: 'uploading' })));
+    setFiles(prev => prev.map(f => batchIds.includes(f.id) ? { ...f, status: 'queued', progress: 0, error: undefined } : f));
+    setUrlSources(prev => prev.map(u => urlIds.includes(u.id) ? { ...u, status: 'queued', error: undefined } : u));
 
     try {
-      const rawFiles = files.map(f => f.file);
-      // Sends files as FormData (Binary) + Text in one request
-      await uploadFilesToWebhook(config.ingestionUrl, rawFiles, textContext);
-      
-      setFiles(prev => prev.map(f => ({ ...f, status: 'success' })));
-      setUploadStatus({ success: true, message: 'Success! Files and prompt sent to N8N.' });
+      // Sends each file as FormData (Binary) + Text, large files in resumable chunks
+      const result = sendsFiles
+        ? await uploadFilesToWebhook(config, itemsToSend.map(f => f.file), textContext, {
+          batchId,
+          idempotencyKeys,
+          documentChunks,
+          signal: controller.signal,
+          onFileProgress: (index, progress) => {
+            // Once every byte is out we are waiting on the workflow
+            const status = progress >= 1 ? 'processing' : 'uploading';
+            setFiles(prev => prev.map(f => f.id === sendIds[index] && !isFileFailed(f.status) ? { ...f, status, progress } : f));
+          }
+        })
+        : { batchId, files: [] };
+
+      setFiles(prev => prev.map(f => {
+        const outcome = result.files[sendIds.indexOf(f.id)];
+        if (!outcome) return f;
+        return {
+          ...f,
+          status: getOutcomeStatus(outcome),
+          progress: outcome.ok ? 1 : f.progress,
+          chunks: outcome.result?.chunks,
+          error: outcome.error ?? outcome.result?.error
+        };
+      }));
+
+      // Rows of each record file, `recordsPerRequest` at a time
+      const recordResults: FileUploadOutcome[] = [];
+      for (const [i, item] of recordItems.entries()) {
+        controller.signal.throwIfAborted();
+        const records = buildRecords(item.table!.data!, item.table!.mapping);
+        const outcome = await ingestRecords(config, item.file.name, records, {
+          batchId,
+          index: itemsToSend.length + i,
+          textContext,
+          signal: controller.signal,
+          onProgress: (progress) => {
+            const status = progress >= 1 ? 'processing' : 'uploading';
+            setFiles(prev => prev.map(f => f.id === item.id ? { ...f, status, progress } : f));
+          }
+        });
+        recordResults.push(outcome);
+        setFiles(prev => prev.map(f => f.id === item.id ? {
+          ...f,
+          status: getOutcomeStatus(outcome),
+          chunks: outcome.result?.chunks,
+          error: outcome.error ?? outcome.result?.error
+        } : f));
+      }
+      const batchResult = { ...result, files: [...result.files, ...recordResults] };
+
+      // One web page (or sitemap crawl) at a time; each can keep the workflow busy for a while
+      const urlResults: UrlIngestionOutcome[] = [];
+      for (const [index, source] of urlsToSend.entries()) {
+        controller.signal.throwIfAborted();
+        setUrlSources(prev => prev.map(u => u.id === source.id ? { ...u, status: 'processing' } : u));
+        const outcome = await ingestUrlSource(config, source, { batchId, index, textContext, signal: controller.signal });
+        urlResults.push(outcome);
+        setUrlSources(prev => prev.map(u => u.id === source.id ? {
+          ...u,
+          status: getOutcomeStatus(outcome),
+          pages: outcome.pages,
+          chunks: outcome.result?.chunks,
+          error: outcome.error ?? outcome.result?.error
+        } : u));
+      }
+
+      logIngestion(loggedBatch, { result: batchResult, urlResults });
+      recordIngestedFiles(config.id, batchResult.files
+        .filter(o => isFileDelivered(getOutcomeStatus(o)))
+        .map(o => ({ name: batchItems[o.index].file.name, hash: batchItems[o.index].hash })));
+
+      const unreachable = result.files.filter(o => o.errorKind === 'network');
+      if (unreachable.length > 0) {
+        queueIngestion(unreachable.map(o => o.index), unreachable[0].error);
+      }
+
+      const itemNoun = urlsToSend.length > 0 ? 'item(s)' : 'file(s)';
+      const failed = [
+        ...result.files.filter(o => o.errorKind !== 'network' && isFileFailed(getOutcomeStatus(o))),
+        ...recordResults.filter(o => isFileFailed(getOutcomeStatus(o))),
+        ...urlResults.filter(o => isFileFailed(getOutcomeStatus(o)))
+      ];
+      if (failed.length > 0) {
+        const reason = failed[0].error ?? failed[0].result?.error ?? 'Rejected by the workflow';
+        let displayMsg = `${failed.length} of ${batchItems.length + urlsToSend.length} ${itemNoun} were not ingested: ${reason}`;
+        const advice = getErrorAdvice(failed[0].errorKind, reason);
+        if (advice) {
+            displayMsg += `\n\nFIX: ${advice}`;
+        }
+        if (unreachable.length > 0) {
+            displayMsg += `\n\n${queuedMessage(unreachable.length)}`;
+        }
+        setUploadStatus({ success: false, message: displayMsg });
+        return;
+      }
+      if (unreachable.length > 0) {
+        setUploadStatus({ success: false, message: queuedMessage(unreachable.length) });
+        return;
+      }
+
+      const outcomes = [...batchResult.files, ...urlResults];
+      const indexedCount = outcomes.filter(o => o.result?.status === 'indexed').length;
+      const processingCount = outcomes.filter(o => o.result?.status === 'processing').length;
+      const pageCount = urlResults.reduce((sum, o) => sum + (o.pages ?? 0), 0);
+      let successMsg = 'Success! Files and prompt sent to N8N.';
+      if (indexedCount || processingCount) {
+        successMsg = `Success! ${indexedCount} ${itemNoun} indexed` + (processingCount ? `, ${processingCount} still processing in N8N.` : '.');
+      }
+      if (pageCount > 0) {
+        successMsg += ` ${pageCount} web page(s) crawled.`;
+      }
+      setUploadStatus({ success: true, message: successMsg });
       
       // Optional: Clear after delay
       setTimeout(() => {
         setFiles([]);
+        setUrlSources([]);
         setTextContext('');
         setUploadStatus(null);
-      }, 2000);
+      }, 3000);
 
     } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        // Cancelled: unsent files go back to pending; chunked uploads resume next time
+        setFiles(prev => prev.map(f => batchIds.includes(f.id) && !isFileDelivered(f.status) ? { ...f, status: 'pending', progress: undefined } : f));
+        setUrlSources(prev => prev.map(u => urlIds.includes(u.id) && (u.status === 'queued' || u.status === 'processing') ? { ...u, status: 'pending' } : u));
+        logIngestion(loggedBatch, { cancelled: true });
+        setUploadStatus({ success: false, message: 'Upload cancelled.' });
+        return;
+      }
+
       const errorMessage = error instanceof Error ? error.message : "Unknown error";
       console.error("Upload failed", error);
+
+      // Only a text-only batch fails as a whole; files report their own outcome
+      if (error instanceof WebhookUnreachableError) {
+        logIngestion(loggedBatch, { queued: true, error: errorMessage });
+        queueIngestion([], errorMessage);
+        setTextContext('');
+        setUploadStatus({ success: false, message: queuedMessage(0) });
+        return;
+      }
       
-      setFiles(prev => prev.map(f => ({ ...f, status: 'error' })));
+      setFiles(prev => prev.map(f => batchIds.includes(f.id) && !isFileDelivered(f.status) ? { ...f, status: 'error', error: errorMessage } : f));
+      setUrlSources(prev => prev.map(u => urlIds.includes(u.id) && !isFileDelivered(u.status) ? { ...u, status: 'error', error: errorMessage } : u));
+      logIngestion(loggedBatch, { error: errorMessage });
       
       let displayMsg = `Failed to upload: ${errorMessage}`;
-      const advice = getN8nErrorAdvice(errorMessage);
+      const advice = getErrorAdvice(getErrorKind(error), errorMessage);
       if (advice) {
           displayMsg = `${errorMessage}\n\nFIX: ${advice}`;
       }
@@ -97,61 +482,556 @@ const App: React.FC = () => {
         message: displayMsg
       });
     } finally {
+      uploadAbortRef.current = null;
       setIsProcessingUpload(false);
     }
   };
 
-  const handleSendMessage = async (text: string, attachments: File[] = []) => {
-    const newUserMsg: ChatMessage = {
-      id: Date.now().toString(),
-      role: MessageRole.USER,
-      content: text,
-      timestamp: Date.now(),
-      attachments: attachments.map(f => ({
-        name: f.name,
-        type: f.type,
-        size: f.size
-      }))
+  const handleCancelUpload = () => {
+    uploadAbortRef.current?.abort();
+  };
+
+  const handleAddUrlSources = (sources: UrlSourceItem[]) => {
+    setUrlSources(prev => [...prev, ...sources]);
+  };
+
+  const handleRemoveUrlSource = (id: string) => {
+    setUrlSources(prev => prev.filter(u => u.id !== id));
+  };
+
+  // --- Ingestion log ---
+
+  const logIngestion = (batch: LoggedBatch, end: BatchEnd) => {
+    saveIngestionLogEntry(createIngestionLogEntry(batch, end))
+      .then(setIngestionLog)
+      .catch(e => console.error("Error saving ingestion log entry", e));
+  };
+
+  /**
+   * Sends a logged batch again, as a new batch, to the given profile's ingestion webhook.
+   * Extracted text chunks are not kept in the log, so only the files, web pages and text context are sent.
+   * Files that were sent as records are parsed again and sent with their logged column mapping.
+   */
+  const handleRerunIngestion = async (entryId: string, profileId: string) => {
+    const source = ingestionLog.find(e => e.id === entryId);
+    const target = profileState.profiles.find(p => p.id === profileId);
+    if (!source || !target?.ingestionUrl) return;
+
+    const batch: LoggedBatch = {
+      batchId: createId(),
+      startedAt: Date.now(),
+      profile: target,
+      textContext: source.textContext,
+      files: source.retainedFiles ?? [],
+      hashes: source.files.map(f => f.hash),
+      mappings: source.files.some(f => f.mapping) ? source.files.map(f => f.mapping) : undefined,
+      urls: source.urls?.map(toUrlSource),
+      rerunOf: source.id
     };
+    const urls = batch.urls ?? [];
+    // Record files come after the uploaded ones, as in handleUpload
+    const uploadFiles = batch.files.filter((_, i) => !batch.mappings?.[i]);
+    const hasRecords = uploadFiles.length < batch.files.length;
+    setRerunningBatchId(entryId);
+    try {
+      const result = uploadFiles.length > 0 || (!hasRecords && urls.length === 0)
+        ? await uploadFilesToWebhook(target, uploadFiles, batch.textContext, { batchId: batch.batchId })
+        : { batchId: batch.batchId, files: [] };
+      const recordResults: FileUploadOutcome[] = [];
+      for (let index = uploadFiles.length; index < batch.files.length; index++) {
+        const file = batch.files[index];
+        const table = await importTableFile(file);
+        recordResults.push(table.data
+          ? await ingestRecords(target, file.name, buildRecords(table.data, batch.mappings![index]!), { batchId: batch.batchId, index, textContext: batch.textContext })
+          : { index, ok: false, error: table.error });
+      }
+      const batchResult = { ...result, files: [...result.files, ...recordResults] };
+      const urlResults: UrlIngestionOutcome[] = [];
+      for (const [index, url] of urls.entries()) {
+        urlResults.push(await ingestUrlSource(target, url, { batchId: batch.batchId, index, textContext: batch.textContext }));
+      }
+      logIngestion(batch, { result: batchResult, urlResults });
+      recordIngestedFiles(target.id, batchResult.files
+        .filter(o => isFileDelivered(getOutcomeStatus(o)))
+        .map(o => ({ name: batch.files[o.index].name, hash: batch.hashes?.[o.index] })));
+    } catch (error) {
+      console.error("Re-run failed", error);
+      logIngestion(batch, { error: error instanceof Error ? error.message : "Unknown error" });
+    } finally {
+      setRerunningBatchId(null);
+    }
+  };
+
+  const handleDeleteIngestionLogEntry = (id: string) => {
+    deleteIngestionLogEntry(id).catch(e => console.error("Error deleting ingestion log entry", e));
+    setIngestionLog(prev => prev.filter(e => e.id !== id));
+  };
+
+  const failedUploadCount = [...files, ...urlSources].filter(f => isFileFailed(f.status)).length;
+  const hasUploadContent = acceptedFiles.length > 0 || urlSources.length > 0 || !!textContext.trim();
+  // Sending waits for text extraction and for spreadsheets to be parsed (their mapping decides how they are sent)
+  const isPreparingFiles = (config.preprocessing.enabled && files.some(f => f.extraction?.status === 'extracting')) ||
+    files.some(f => f.table?.status === 'parsing');
+
+  /**
+   * Sends one chat turn and writes the reply, streamed or whole, into the session.
+   * Resolves with the reply, or undefined when stopped (keeping whatever was streamed).
+   * Other failures remove the partial reply and rethrow.
+   */
+  const deliverChatMessage = async (
+    target: WebhookConfig,
+    sessionId: string,
+    text: string,
+    attachments: File[],
+    history: ChatMessage[],
+    idempotencyKey: string,
+    replyId = (Date.now() + 1).toString() // An existing (placeholder) message is filled in place
+  ): Promise<ChatMessage | undefined> => {
+    setLoadingSessionIds(prev => [...prev, sessionId]);
+
+    const controller = new AbortController();
+    chatAbortRef.current.set(sessionId, controller);
+    const botMsgId = replyId;
 
-    setMessages(prev => [...prev, newUserMsg]);
-    setIsChatLoading(true);
+    // Grow the assistant bubble as streamed tokens arrive
+    const handleToken = (token: string) => {
+      updateSessionMessages(sessionId, prev => prev.some(m => m.id === botMsgId)
+        ? prev.map(m => m.id === botMsgId ? { ...m, content: m.content + token } : m)
+        : [...prev, { id: botMsgId, role: MessageRole.ASSISTANT, content: token, timestamp: Date.now(), isStreaming: true }]
+      );
+    };
 
     try {
       // Sends as FormData
-      const responseText = await sendChatMessage(config.chatUrl, text, messages, attachments);
+      // The workflow may have assigned its own session id on an earlier reply
+      const requestSessionId = sessionsRef.current.find(s => s.id === sessionId)?.remoteSessionId ?? sessionId;
+      const response = await sendChatMessage(target, requestSessionId, text, history, attachments, {
+        onToken: handleToken,
+        signal: controller.signal,
+        idempotencyKey
+      });
       
       const botMsg: ChatMessage = {
-        id: (Date.now() + 1).toString(),
+        id: botMsgId,
         role: MessageRole.ASSISTANT,
-        content: responseText,
-        timestamp: Date.now()
+        content: response.text,
+        timestamp: Date.now(),
+        sources: response.sources.length > 0 ? response.sources : undefined,
+        suggestions: response.suggestions.length > 0 ? response.suggestions : undefined
       };
-      setMessages(prev => [...prev, botMsg]);
+      if (response.sessionId && response.sessionId !== requestSessionId) {
+        setSessions(prev => prev.map(s => s.id === sessionId ? { ...s, remoteSessionId: response.sessionId } : s));
+      }
+      // Merged so a regenerated reply keeps its versions
+      updateSessionMessages(sessionId, prev => prev.some(m => m.id === botMsgId)
+        ? prev.map(m => m.id === botMsgId ? { ...m, ...botMsg, isStreaming: false } : m)
+        : [...prev, botMsg]
+      );
+      return botMsg;
 
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        // Stopped by the user: keep whatever was streamed so far
+        updateSessionMessages(sessionId, prev => prev.map(m => m.id === botMsgId ? { ...m, isStreaming: false } : m));
+        return undefined;
+      }
+      updateSessionMessages(sessionId, prev => prev.filter(m => m.id !== botMsgId));
+      throw error;
+    } finally {
+      if (chatAbortRef.current.get(sessionId) === controller) {
+        chatAbortRef.current.delete(sessionId);
+      }
+      setLoadingSessionIds(prev => prev.filter(id => id !== sessionId));
+    }
+  };
+
+  /**
+   * Sends a user message that is already in the session, queueing it in the outbox
+   * when N8N cannot be reached and recording any other failure as an error reply.
+   */
+  const dispatchChatMessage = async (sessionId: string, userMsg: ChatMessage, attachments: File[], history: ChatMessage[]) => {
+    attachmentFilesRef.current.set(userMsg.id, attachments);
+    const idempotencyKey = createId();
+    const queueMessage = (error?: string) => {
+      updateSessionMessages(sessionId, prev => prev.map(m => m.id === userMsg.id ? { ...m, isQueued: true } : m));
+      putOutboxEntry({
+        ...createChatOutboxEntry({ profileId: config.id, idempotencyKey, sessionId, messageId: userMsg.id, text: userMsg.content, files: attachments }),
+        lastError: error
+      });
+    };
+
+    if (!navigator.onLine) {
+      queueMessage();
+      return;
+    }
+
+    try {
+      await deliverChatMessage(config, sessionId, userMsg.content, attachments, history, idempotencyKey);
+    } catch (error) {
+      if (error instanceof WebhookUnreachableError) {
+        queueMessage(error.message);
+        return;
+      }
+
       console.error("Chat failed", error);
-      
-      let displayMsg = `Error: ${errorMessage}`;
-      const advice = getN8nErrorAdvice(errorMessage);
-      if (advice) {
-          displayMsg += `\n\n💡 ${advice}`;
+      updateSessionMessages(sessionId, prev => [...prev, createChatErrorMessage(error)]);
+    }
+  };
+
+  const createUserMessage = (text: string, attachments: File[]): ChatMessage => ({
+    id: Date.now().toString(),
+    role: MessageRole.USER,
+    content: text,
+    timestamp: Date.now(),
+    attachments: attachments.map(f => ({
+      name: f.name,
+      type: f.type,
+      size: f.size
+    }))
+  });
+
+  const handleSendMessage = async (text: string, attachments: File[] = []) => {
+    if (!activeSessionId) return;
+    const newUserMsg = createUserMessage(text, attachments);
+    updateSessionMessages(activeSessionId, prev => [...prev, newUserMsg]);
+    await dispatchChatMessage(activeSessionId, newUserMsg, attachments, messages);
+  };
+
+  // --- Message actions ---
+
+  // Edited questions become a new branch; the original question and its replies stay navigable
+  const handleEditMessage = async (messageId: string, text: string) => {
+    if (!activeSessionId) return;
+    const index = messages.findIndex(m => m.id === messageId);
+    if (index === -1) return;
+
+    // Files only live in memory, so after a reload the edit is sent without them
+    const attachments = attachmentFilesRef.current.get(messageId) ?? [];
+    const editedMsg = createUserMessage(text, attachments);
+    updateSessionMessages(activeSessionId, prev => branchFrom(prev, index, [editedMsg]));
+    await dispatchChatMessage(activeSessionId, editedMsg, attachments, messages.slice(0, index));
+  };
+
+  /**
+   * Asks for a new answer to the question before `messages[index]`, keeping the earlier answer as a version.
+   * A failed attempt restores the earlier answer and adds an error reply after it.
+   */
+  const regenerateReply = async (sessionId: string, previous: ChatMessage[], index: number) => {
+    const question = previous[index - 1];
+    if (question?.role !== MessageRole.USER) return;
+
+    const replyId = createId();
+    const placeholder: ChatMessage = { id: replyId, role: MessageRole.ASSISTANT, content: '', timestamp: Date.now(), isStreaming: true };
+    updateSessionMessages(sessionId, () => branchFrom(previous, index, [placeholder]));
+
+    try {
+      const reply = await deliverChatMessage(
+        config, sessionId, question.content, attachmentFilesRef.current.get(question.id) ?? [], previous.slice(0, index - 1), createId(), replyId
+      );
+      // Stopped before anything arrived: drop the empty version
+      if (!reply) {
+        updateSessionMessages(sessionId, prev => prev.find(m => m.id === replyId)?.content ? prev : previous);
       }
+    } catch (error) {
+      console.error("Regenerate failed", error);
+      updateSessionMessages(sessionId, () => [...previous, createChatErrorMessage(error)]);
+    }
+  };
 
-      const errorMsg: ChatMessage = {
-        id: (Date.now() + 1).toString(),
-        role: MessageRole.ASSISTANT,
-        content: displayMsg,
-        timestamp: Date.now(),
-        isError: true
+  const handleRegenerateMessage = async (messageId: string) => {
+    if (!activeSessionId) return;
+    const index = messages.findIndex(m => m.id === messageId);
+    if (index > 0) await regenerateReply(activeSessionId, messages, index);
+  };
+
+  // Replaces an error reply by sending its question again (or regenerating, if the error followed a regenerate)
+  const handleRetryMessage = async (messageId: string) => {
+    if (!activeSessionId) return;
+    const index = messages.findIndex(m => m.id === messageId);
+    if (index <= 0) return;
+    const remaining = messages.filter(m => m.id !== messageId);
+
+    const prior = messages[index - 1];
+    if (prior.role === MessageRole.ASSISTANT && !prior.isError) {
+      await regenerateReply(activeSessionId, remaining, index - 1);
+      return;
+    }
+
+    const questionIndex = messages.slice(0, index).map(m => m.role).lastIndexOf(MessageRole.USER);
+    if (questionIndex === -1) return;
+    const question = messages[questionIndex];
+    updateSessionMessages(activeSessionId, () => remaining);
+    await dispatchChatMessage(activeSessionId, question, attachmentFilesRef.current.get(question.id) ?? [], messages.slice(0, questionIndex));
+  };
+
+  // Kept on the message; also posted to the feedback webhook when one is configured
+  const handleFeedback = async (messageId: string, rating: FeedbackRating, comment?: string) => {
+    if (!activeSession) return;
+    const sessionId = activeSession.id;
+    const index = messages.findIndex(m => m.id === messageId);
+    if (index === -1) return;
+    const question = messages.slice(0, index).reverse().find(m => m.role === MessageRole.USER);
+
+    const setFeedback = (feedback: MessageFeedback) => {
+      setSessions(prev => prev.map(s => s.id === sessionId
+        ? { ...s, updatedAt: Date.now(), messages: s.messages.map(m => m.id === messageId ? { ...m, feedback } : m) }
+        : s));
+    };
+
+    if (!config.feedbackUrl) {
+      setFeedback({ rating, comment, status: 'local' });
+      return;
+    }
+
+    setFeedback({ rating, comment, status: 'sending' });
+    try {
+      await submitFeedback(config, {
+        sessionId: activeSession.remoteSessionId ?? sessionId,
+        messageId,
+        question: question?.content ?? '',
+        answer: messages[index].content,
+        rating,
+        comment
+      });
+      setFeedback({ rating, comment, status: 'sent' });
+    } catch (error) {
+      setFeedback({ rating, comment, status: 'error', error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  };
+
+  const handleSwitchVersion = (messageId: string, version: number) => {
+    if (!activeSessionId) return;
+    const index = messages.findIndex(m => m.id === messageId);
+    if (index !== -1) {
+      updateSessionMessages(activeSessionId, prev => switchVersion(prev, index, version));
+    }
+  };
+
+  const createChatErrorMessage = (error: unknown): ChatMessage => {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    let displayMsg = `Error: ${errorMessage}`;
+    const advice = getErrorAdvice(getErrorKind(error), errorMessage);
+    if (advice) {
+        displayMsg += `\n\n💡 ${advice}`;
+    }
+
+    return {
+      id: (Date.now() + 1).toString(),
+      role: MessageRole.ASSISTANT,
+      content: displayMsg,
+      timestamp: Date.now(),
+      isError: true
+    };
+  };
+
+  // --- Transcripts ---
+
+  const handleExportSession = (sessionId: string, format: TranscriptFormat) => {
+    const session = sessions.find(s => s.id === sessionId);
+    if (!session) return;
+
+    const { content, mimeType, fileName } = exportTranscript(session, format);
+    const blob = new Blob([content], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    // Revoking right away can cancel the download in some browsers
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  const handleContinueImport = () => {
+    if (!importedSession) return;
+    setSessions(prev => [importedSession, ...prev]);
+    setActiveSessionId(importedSession.id);
+    setImportedSession(null);
+  };
+
+  /**
+   * Sends the imported questions one by one to the chosen profile, recording the new
+   * answers in a fresh session. Stops at the first failure or when the user stops generation.
+   */
+  const handleReplayImport = async (profileId: string) => {
+    const target = profileState.profiles.find(p => p.id === profileId);
+    if (!importedSession || !target) return;
+    const questions = importedSession.messages.filter(m => m.role === MessageRole.USER);
+    setImportedSession(null);
+
+    const session: ChatSession = {
+      ...createSession(),
+      title: `${importedSession.title} (replay: ${target.name})`,
+      titleEdited: true
+    };
+    setSessions(prev => [session, ...prev]);
+    setActiveSessionId(session.id);
+
+    const history: ChatMessage[] = [];
+    for (const question of questions) {
+      // Deleted while replaying
+      if (history.length > 0 && !sessionsRef.current.some(s => s.id === session.id)) return;
+
+      const userMsg: ChatMessage = {
+        id: createId(),
+        role: MessageRole.USER,
+        content: question.content,
+        timestamp: Date.now()
       };
-      setMessages(prev => [...prev, errorMsg]);
-    } finally {
-      setIsChatLoading(false);
+      updateSessionMessages(session.id, prev => [...prev, userMsg]);
+
+      try {
+        const reply = await deliverChatMessage(target, session.id, userMsg.content, [], history, createId());
+        if (!reply) return;
+        history.push(userMsg, reply);
+      } catch (error) {
+        console.error("Replay failed", error);
+        updateSessionMessages(session.id, prev => [...prev, createChatErrorMessage(error)]);
+        return;
+      }
+    }
+  };
+
+  // --- Outbox ---
+
+  const putOutboxEntry = (entry: OutboxEntry) => {
+    saveOutboxEntry(entry).catch(e => console.error("Error saving outbox entry", e));
+    setOutbox(prev => prev.some(e => e.id === entry.id)
+      ? prev.map(e => e.id === entry.id ? entry : e)
+      : [...prev, entry]);
+  };
+
+  const removeOutboxEntry = (id: string) => {
+    deleteOutboxEntry(id).catch(e => console.error("Error deleting outbox entry", e));
+    setOutbox(prev => prev.filter(e => e.id !== id));
+  };
+
+  // Unreachable again: back off and retry automatically. Anything else waits for a manual retry.
+  const rescheduleOutboxEntry = (entry: OutboxEntry, error: unknown) => {
+    const attempts = entry.attempts + 1;
+    const lastError = error instanceof Error ? error.message : "Unknown error";
+    putOutboxEntry(error instanceof WebhookUnreachableError
+      ? { ...entry, attempts, lastError, status: 'pending', nextAttemptAt: Date.now() + getRetryDelay(attempts) }
+      : { ...entry, attempts, lastError, status: 'failed' });
+  };
+
+  const resendQueuedChat = async (target: WebhookConfig, entry: ChatOutboxEntry) => {
+    const session = sessions.find(s => s.id === entry.sessionId);
+    if (!session) {
+      // The chat was deleted while the message waited
+      removeOutboxEntry(entry.id);
+      return;
     }
+    const messageIndex = session.messages.findIndex(m => m.id === entry.messageId);
+    const history = messageIndex === -1 ? session.messages : session.messages.slice(0, messageIndex);
+
+    await deliverChatMessage(target, entry.sessionId, entry.text, entry.files, history, entry.idempotencyKey);
+    updateSessionMessages(entry.sessionId, prev => prev.map(m => m.id === entry.messageId ? { ...m, isQueued: false } : m));
+    removeOutboxEntry(entry.id);
   };
 
+  const resendQueuedIngestion = async (target: WebhookConfig, entry: IngestionOutboxEntry) => {
+    const result = await uploadFilesToWebhook(target, entry.files, entry.textContext, {
+      batchId: entry.batchId,
+      idempotencyKeys: entry.idempotencyKeys,
+      documentChunks: entry.documentChunks
+    });
+
+    recordOutboxDelivery(entry.batchId, entry.idempotencyKeys, result)
+      .then(log => log && setIngestionLog(log))
+      .catch(e => console.error("Error updating ingestion log", e));
+
+    const delivered = result.files.filter(o => isFileDelivered(getOutcomeStatus(o)));
+    const hashes = await Promise.all(delivered.map(o => hashFile(entry.files[o.index])));
+    recordIngestedFiles(entry.profileId, delivered.map((o, i) => ({ name: entry.files[o.index].name, hash: hashes[i] })));
+
+    const failed = result.files.filter(o => isFileFailed(getOutcomeStatus(o)));
+    if (failed.length === 0) {
+      removeOutboxEntry(entry.id);
+      return;
+    }
+
+    // Keep only the files that still have not made it
+    const isPending = (index: number) => failed.some(o => o.index === index);
+    const reason = failed[0].error ?? failed[0].result?.error ?? 'Rejected by the workflow';
+    rescheduleOutboxEntry({
+      ...entry,
+      files: entry.files.filter((_, i) => isPending(i)),
+      idempotencyKeys: entry.idempotencyKeys.filter((_, i) => isPending(i)),
+      documentChunks: entry.documentChunks?.filter((_, i) => isPending(i))
+    }, failed.every(o => o.errorKind === 'network') ? new WebhookUnreachableError(reason) : new Error(reason));
+  };
+
+  const deliverOutboxEntry = async (entry: OutboxEntry) => {
+    const target = profileState.profiles.find(p => p.id === entry.profileId);
+    if (!target) {
+      putOutboxEntry({ ...entry, status: 'failed', lastError: "The profile this request was queued for no longer exists." });
+      return;
+    }
+
+    putOutboxEntry({ ...entry, status: 'sending' });
+    try {
+      if (entry.kind === 'chat') {
+        await resendQueuedChat(target, entry);
+      } else {
+        await resendQueuedIngestion(target, entry);
+      }
+    } catch (error) {
+      rescheduleOutboxEntry(entry, error);
+    }
+  };
+
+  const handleRetryOutboxEntry = (id: string) => {
+    const entry = outbox.find(e => e.id === id);
+    if (entry) putOutboxEntry({ ...entry, status: 'pending', nextAttemptAt: Date.now() });
+  };
+
+  const handleCancelOutboxEntry = (id: string) => {
+    const entry = outbox.find(e => e.id === id);
+    if (entry?.kind === 'chat') {
+      updateSessionMessages(entry.sessionId, prev => prev.map(m => m.id === entry.messageId ? { ...m, isQueued: false } : m));
+    }
+    removeOutboxEntry(id);
+  };
+
+  // Replay due entries one at a time; sleep until the next retry is due
+  useEffect(() => {
+    if (!isOnline || outboxBusyRef.current) return;
+    const pending = outbox.filter(e => e.status === 'pending');
+    if (pending.length === 0) return;
+
+    const due = pending.find(e => e.nextAttemptAt <= Date.now());
+    if (!due) {
+      const nextAttemptAt = Math.min(...pending.map(e => e.nextAttemptAt));
+      const timer = setTimeout(() => setOutboxWakeUp(n => n + 1), nextAttemptAt - Date.now());
+      return () => clearTimeout(timer);
+    }
+
+    outboxBusyRef.current = true;
+    deliverOutboxEntry(due).finally(() => {
+      outboxBusyRef.current = false;
+      setOutboxWakeUp(n => n + 1);
+    });
+  }, [outbox, isOnline, outboxWakeUp]);
+
+  const handleStopGeneration = () => {
+    if (activeSessionId) {
+      chatAbortRef.current.get(activeSessionId)?.abort();
+    }
+  };
+
+  const sessionSidebar = (
+    <SessionSidebar
+      sessions={[...sessions].sort((a, b) => b.updatedAt - a.updatedAt)}
+      activeSessionId={activeSessionId}
+      onSelect={handleSelectSession}
+      onCreate={handleCreateSession}
+      onRename={handleRenameSession}
+      onDelete={handleDeleteSession}
+      onExport={handleExportSession}
+      onImport={setImportedSession}
+    />
+  );
+
   return (
     <div className="flex h-screen bg-slate-50 overflow-hidden font-sans">
       {/* Sidebar (Desktop) */}
@@ -163,6 +1043,22 @@ const App: React.FC = () => {
           <span className="font-bold text-lg tracking-tight">N8N Builder</span>
         </div>
 
+        {/* Profile Switcher */}
+        <div className="px-3">
+          <label className="flex items-center gap-2 px-1 mb-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+            <Server className="w-3.5 h-3.5" /> Profile
+          </label>
+          <select
+            value={profileState.activeProfileId}
+            onChange={(e) => updateProfileState({ ...profileState, activeProfileId: e.target.value })}
+            className="w-full px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            {profileState.profiles.map(profile => (
+              <option key={profile.id} value={profile.id}>{profile.name}</option>
+            ))}
+          </select>
+        </div>
+
         <nav className="flex-1 px-3 space-y-2 mt-4">
           <button
             onClick={() => setActiveTab(Tab.UPLOAD)}
@@ -176,6 +1072,18 @@ const App: React.FC = () => {
             <span className="font-medium">Knowledge Base</span>
           </button>
 
+          <button
+            onClick={() => setActiveTab(Tab.DOCUMENTS)}
+            className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-all ${
+              activeTab === Tab.DOCUMENTS 
+                ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-900/20' 
+                : 'hover:bg-slate-800 text-slate-400 hover:text-white'
+            }`}
+          >
+            <Library className="w-5 h-5" />
+            <span className="font-medium">Documents</span>
+          </button>
+
           <button
             onClick={() => setActiveTab(Tab.CHAT)}
             className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-all ${
@@ -200,6 +1108,13 @@ const App: React.FC = () => {
         </div>
       </aside>
 
+      <OutboxPanel
+        entries={outbox}
+        isOnline={isOnline}
+        onRetry={handleRetryOutboxEntry}
+        onCancel={handleCancelOutboxEntry}
+      />
+
       {/* Main Content */}
       <main className="flex-1 flex flex-col h-full overflow-hidden relative">
         {/* Mobile Header */}
@@ -228,6 +1143,12 @@ const App: React.FC = () => {
                 Upload
                 </button>
                 <button 
+                onClick={() => setActiveTab(Tab.DOCUMENTS)}
+                className={`flex-1 py-2 text-sm font-medium rounded-lg transition-all ${activeTab === Tab.DOCUMENTS ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-600'}`}
+                >
+                Documents
+                </button>
+                <button 
                 onClick={() => setActiveTab(Tab.CHAT)}
                 className={`flex-1 py-2 text-sm font-medium rounded-lg transition-all ${activeTab === Tab.CHAT ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-600'}`}
                 >
@@ -267,6 +1188,33 @@ const App: React.FC = () => {
                                 files={files} 
                                 setFiles={setFiles} 
                                 isProcessing={isProcessingUpload}
+                                extractText={config.preprocessing.enabled}
+                                media={config.media}
+                                limits={config.uploadLimits}
+                                profileId={config.id}
+                                urlSources={urlSources}
+                                onRemoveUrlSource={handleRemoveUrlSource}
+                            />
+                        </div>
+
+                        {/* Web Pages */}
+                        <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200">
+                            <UrlSourceInput
+                                existingUrls={urlSources.map(u => u.url)}
+                                disabled={isProcessingUpload}
+                                onAdd={handleAddUrlSources}
+                            />
+                        </div>
+
+                        {/* Ingestion History */}
+                        <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200">
+                            <IngestionLogPanel
+                                entries={ingestionLog}
+                                profiles={profileState.profiles}
+                                activeProfileId={config.id}
+                                rerunningId={rerunningBatchId}
+                                onRerun={handleRerunIngestion}
+                                onDelete={handleDeleteIngestionLogEntry}
                             />
                         </div>
                     </div>
@@ -280,12 +1228,20 @@ const App: React.FC = () => {
                                 {uploadStatus.message}
                             </div>
                         )}
+                        {failedUploadCount > 0 && !isProcessingUpload && (
+                            <button
+                                onClick={() => handleUpload(true)}
+                                className="w-full py-2.5 rounded-xl text-sm font-semibold border border-red-200 text-red-700 bg-red-50 hover:bg-red-100 transition-colors flex items-center justify-center gap-2"
+                            >
+                                <RotateCcw className="w-4 h-4" /> Retry failed only ({failedUploadCount})
+                            </button>
+                        )}
                         <button
-                            onClick={handleUpload}
-                            disabled={isProcessingUpload || (files.length === 0 && !textContext.trim())}
+                            onClick={() => handleUpload()}
+                            disabled={isProcessingUpload || isPreparingFiles || !hasUploadContent}
                             className={`
                             w-full py-4 rounded-xl font-semibold shadow-lg transition-all flex items-center justify-center gap-2
-                            ${isProcessingUpload || (files.length === 0 && !textContext.trim())
+                            ${isProcessingUpload || isPreparingFiles || !hasUploadContent
                                 ? 'bg-slate-300 text-slate-500 cursor-not-allowed' 
                                 : 'bg-indigo-600 text-white hover:bg-indigo-700 hover:shadow-indigo-500/30 transform hover:-translate-y-0.5'}
                             `}
@@ -296,6 +1252,14 @@ const App: React.FC = () => {
                                 <><Upload className="w-5 h-5" /> Send to N8N</>
                             )}
                         </button>
+                        {isProcessingUpload && (
+                            <button
+                                onClick={handleCancelUpload}
+                                className="w-full py-2.5 rounded-xl text-sm font-semibold border border-slate-200 text-slate-600 bg-white hover:bg-slate-50 transition-colors flex items-center justify-center gap-2"
+                            >
+                                <Square className="w-4 h-4" /> Cancel upload
+                            </button>
+                        )}
                         {!config.ingestionUrl && (
                             <p className="text-xs text-center text-slate-400">
                                 Configure ingestion webhook in settings to enable upload.
@@ -304,15 +1268,62 @@ const App: React.FC = () => {
                     </div>
                 </div>
             </div>
+          ) : activeTab === Tab.DOCUMENTS ? (
+            <div className="flex-1 overflow-y-auto p-4 md:p-8">
+              <div className="max-w-5xl mx-auto h-full">
+                <KnowledgeBaseManager
+                  config={config}
+                  onOpenSettings={() => setIsSettingsOpen(true)}
+                />
+              </div>
+            </div>
           ) : (
-            <div className="flex-1 h-full overflow-hidden max-w-4xl mx-auto w-full p-4 md:p-8">
-              <ChatInterface 
-                messages={messages} 
-                onSendMessage={handleSendMessage} 
-                isLoading={isChatLoading}
-                hasConfig={!!config.chatUrl}
-                onOpenSettings={() => setIsSettingsOpen(true)}
-              />
+            <div className="flex-1 h-full overflow-hidden max-w-6xl mx-auto w-full p-4 md:p-8 flex gap-4">
+              <div className="hidden lg:block w-64 flex-shrink-0">
+                {sessionSidebar}
+              </div>
+              {isSessionDrawerOpen && (
+                <div className="lg:hidden fixed inset-0 z-40 flex">
+                  <div className="absolute inset-0 bg-black/40" onClick={() => setIsSessionDrawerOpen(false)} />
+                  <div className="relative w-72 max-w-[85%] h-full bg-slate-50 p-3 shadow-xl animate-in slide-in-from-left duration-200 flex flex-col gap-2">
+                    <button
+                      onClick={() => setIsSessionDrawerOpen(false)}
+                      className="self-end p-1.5 text-slate-400 hover:text-slate-600 transition-colors"
+                      aria-label="Close conversations"
+                    >
+                      <X className="w-5 h-5" />
+                    </button>
+                    <div className="flex-1 min-h-0">{sessionSidebar}</div>
+                  </div>
+                </div>
+              )}
+              <div className="flex-1 min-w-0 h-full flex flex-col gap-2">
+                <button
+                  onClick={() => setIsSessionDrawerOpen(true)}
+                  className="lg:hidden self-start flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-50 transition-colors"
+                >
+                  <Menu className="w-4 h-4" /> Conversations
+                </button>
+                <div className="flex-1 min-h-0">
+                  <ChatInterface 
+                    messages={messages} 
+                    onSendMessage={handleSendMessage} 
+                    isLoading={isChatLoading}
+                    onStop={handleStopGeneration}
+                    hasConfig={!!config.chatUrl}
+                    onOpenSettings={() => setIsSettingsOpen(true)}
+                    onEditMessage={handleEditMessage}
+                    onRetryMessage={handleRetryMessage}
+                    onRegenerateMessage={handleRegenerateMessage}
+                    onSwitchVersion={handleSwitchVersion}
+                    onFeedback={handleFeedback}
+                    historyWindow={buildHistoryWindow(messages, config.history)}
+                    maxRecordingSeconds={config.voice.maxSeconds}
+                    media={config.media}
+                    showCamera
+                  />
+                </div>
+              </div>
             </div>
           )}
         </div>
@@ -321,8 +1332,20 @@ const App: React.FC = () => {
       <SettingsModal 
         isOpen={isSettingsOpen} 
         onClose={() => setIsSettingsOpen(false)} 
-        onSave={(newConfig) => setConfig(newConfig)}
+        profileState={profileState}
+        onSave={updateProfileState}
       />
+
+      {importedSession && (
+        <TranscriptImportDialog
+          session={importedSession}
+          profiles={profileState.profiles}
+          activeProfileId={profileState.activeProfileId}
+          onContinue={handleContinueImport}
+          onReplay={handleReplayImport}
+          onClose={() => setImportedSession(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { ThumbsUp, ThumbsDown, Loader2, AlertCircle } from 'lucide-react';
+import { FeedbackRating, MessageFeedback } from '../types';
+
+interface AnswerFeedbackProps {
+  feedback?: MessageFeedback;
+  disabled: boolean;
+  onSubmit: (rating: FeedbackRating, comment?: string) => void;
+}
+
+/**
+ * Thumbs up/down on an assistant answer. A rating is sent right away; the optional
+ * comment box that opens afterwards sends it again with the comment.
+ */
+export const AnswerFeedback: React.FC<AnswerFeedbackProps> = ({ feedback, disabled, onSubmit }) => {
+  const [isCommentOpen, setIsCommentOpen] = useState(false);
+  const [comment, setComment] = useState('');
+
+  const rate = (rating: FeedbackRating) => {
+    if (feedback?.rating === rating) return;
+    onSubmit(rating, feedback?.comment);
+    setComment(feedback?.comment ?? '');
+    setIsCommentOpen(true);
+  };
+
+  const submitComment = () => {
+    if (feedback && comment.trim()) {
+      onSubmit(feedback.rating, comment.trim());
+    }
+    setIsCommentOpen(false);
+  };
+
+  const buttonClass = (rating: FeedbackRating) => `p-1 rounded-md transition-colors disabled:opacity-40 ${
+    feedback?.rating === rating
+      ? rating === 'up' ? 'text-emerald-600' : 'text-red-500'
+      : 'text-slate-400 hover:text-indigo-600'
+  }`;
+
+  return (
+    <>
+      <div className={`flex items-center gap-1 transition-opacity ${feedback ? '' : 'opacity-0 group-hover:opacity-100 focus-within:opacity-100'}`}>
+        <button onClick={() => rate('up')} disabled={disabled} className={buttonClass('up')} title="Good answer">
+          <ThumbsUp className={`w-3.5 h-3.5 ${feedback?.rating === 'up' ? 'fill-current' : ''}`} />
+        </button>
+        <button onClick={() => rate('down')} disabled={disabled} className={buttonClass('down')} title="Bad answer">
+          <ThumbsDown className={`w-3.5 h-3.5 ${feedback?.rating === 'down' ? 'fill-current' : ''}`} />
+        </button>
+        {feedback?.status === 'sending' && <Loader2 className="w-3.5 h-3.5 text-slate-400 animate-spin" />}
+        {feedback?.status === 'error' && (
+          <button
+            onClick={() => onSubmit(feedback.rating, feedback.comment)}
+            className="flex items-center gap-1 text-xs text-red-600 hover:underline"
+            title={feedback.error}
+          >
+            <AlertCircle className="w-3.5 h-3.5" /> Not sent, retry
+          </button>
+        )}
+      </div>
+
+      {isCommentOpen && feedback && (
+        <div className="w-full min-w-[280px] space-y-2">
+          <textarea
+            autoFocus
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); submitComment(); }
+              if (e.key === 'Escape') setIsCommentOpen(false);
+            }}
+            rows={2}
+            placeholder={feedback.rating === 'up' ? 'What was good about this answer? (optional)' : 'What was wrong with this answer? (optional)'}
+            className="w-full px-3 py-2 text-sm border border-slate-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-indigo-500 resize-none"
+          />
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setIsCommentOpen(false)}
+              className="px-3 py-1.5 text-xs font-medium text-slate-600 hover:text-slate-800 transition-colors"
+            >
+              Skip
+            </button>
+            <button
+              onClick={submitComment}
+              disabled={!comment.trim()}
+              className="px-3 py-1.5 text-xs font-medium bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+            >
+              Send comment
+            </button>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,137 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Camera, X, RotateCcw, Check, SwitchCamera, AlertCircle } from 'lucide-react';
+
+interface CameraCaptureProps {
+  onCapture: (file: File) => void;
+  onClose: () => void;
+}
+
+interface Snapshot {
+  blob: Blob;
+  url: string;
+}
+
+export const isCameraSupported = () => !!navigator.mediaDevices?.getUserMedia;
+
+/**
+ * Webcam dialog: live preview, take a photo, then retake or use it.
+ * The photo is a full-resolution JPEG; the profile's image options apply once it is added.
+ */
+export const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [facingMode, setFacingMode] = useState<'user' | 'environment'>('user');
+  const [snapshot, setSnapshot] = useState<Snapshot | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // The stream is kept running behind the snapshot so "Retake" is instant
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    setError(null);
+    navigator.mediaDevices.getUserMedia({ video: { facingMode, width: { ideal: 1920 } } })
+      .then(s => {
+        if (cancelled) { s.getTracks().forEach(track => track.stop()); return; }
+        stream = s;
+        if (videoRef.current) videoRef.current.srcObject = s;
+      })
+      .catch(e => {
+        console.error("Camera access failed:", e);
+        setError(e instanceof DOMException && e.name === 'NotAllowedError'
+          ? 'Camera access was denied. Allow it in the browser to take photos.'
+          : 'No camera is available.');
+      });
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [facingMode]);
+
+  useEffect(() => () => {
+    if (snapshot) URL.revokeObjectURL(snapshot.url);
+  }, [snapshot]);
+
+  const takePhoto = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')!.drawImage(video, 0, 0);
+    canvas.toBlob(blob => {
+      if (blob) setSnapshot({ blob, url: URL.createObjectURL(blob) });
+    }, 'image/jpeg', 0.92);
+  };
+
+  const acceptPhoto = () => {
+    if (!snapshot) return;
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    onCapture(new File([snapshot.blob], `camera-${stamp}.jpg`, { type: 'image/jpeg' }));
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-full flex flex-col overflow-hidden animate-in fade-in zoom-in duration-200">
+        <div className="flex items-center justify-between p-6 border-b border-slate-100">
+          <div className="flex items-center gap-2 text-indigo-600">
+            <Camera className="w-5 h-5" />
+            <h2 className="text-xl font-bold text-slate-900">Take a Photo</h2>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition-colors">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6">
+          {error ? (
+            <div className="flex items-center gap-2 p-4 bg-red-50 text-red-700 rounded-xl text-sm">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" /> {error}
+            </div>
+          ) : (
+            <div className="relative bg-slate-900 rounded-xl overflow-hidden aspect-video">
+              <video ref={videoRef} autoPlay playsInline muted className={`w-full h-full object-contain ${snapshot ? 'hidden' : ''}`} />
+              {snapshot && <img src={snapshot.url} alt="Captured" className="w-full h-full object-contain" />}
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 bg-slate-50 border-t border-slate-100 flex items-center justify-between gap-3">
+          <button
+            onClick={() => setFacingMode(mode => mode === 'user' ? 'environment' : 'user')}
+            disabled={!!snapshot || !!error}
+            className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-slate-600 hover:text-slate-800 transition-colors disabled:opacity-40"
+            title="Switch between front and back camera"
+          >
+            <SwitchCamera className="w-4 h-4" /> Switch camera
+          </button>
+          <div className="flex items-center gap-3">
+            {snapshot ? (
+              <>
+                <button
+                  onClick={() => setSnapshot(null)}
+                  className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-slate-600 hover:text-slate-800 transition-colors"
+                >
+                  <RotateCcw className="w-4 h-4" /> Retake
+                </button>
+                <button
+                  onClick={acceptPhoto}
+                  className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white text-sm font-medium rounded-lg hover:bg-indigo-700 transition-colors shadow-sm"
+                >
+                  <Check className="w-4 h-4" /> Use photo
+                </button>
+              </>
+            ) : (
+              <button
+                onClick={takePhoto}
+                disabled={!!error}
+                className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white text-sm font-medium rounded-lg hover:bg-indigo-700 transition-colors shadow-sm disabled:opacity-50"
+              >
+                <Camera className="w-4 h-4" /> Take photo
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
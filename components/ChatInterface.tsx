@@ -1,28 +1,68 @@
 import React, { useRef, useEffect, useState } from 'react';
-import { Send, Bot, User, AlertCircle, Loader2, Paperclip, X, File, Image as ImageIcon } from 'lucide-react';
-import { ChatMessage, MessageRole, SUPPORTED_MIME_TYPES } from '../types';
-import { SAMPLE_QUESTIONS } from '../constants';
+import { Send, Bot, User, AlertCircle, Paperclip, X, File, Image as ImageIcon, Square, Clock, Mic, Camera } from 'lucide-react';
+import { ChatMessage, FeedbackRating, MediaOptions, MessageRole, SUPPORTED_MIME_TYPES } from '../types';
+import { DEFAULT_CONFIG, SAMPLE_QUESTIONS } from '../constants';
+import { MarkdownMessage } from './MarkdownMessage';
+import { SourcesPanel } from './SourcesPanel';
+import { MessageActions } from './MessageActions';
+import { AnswerFeedback } from './AnswerFeedback';
+import { VoiceRecorder } from './VoiceRecorder';
+import { CameraCapture, isCameraSupported } from './CameraCapture';
+import { HistoryWindow } from '../services/historyWindow';
+import { isVoiceFile } from '../utils/voice';
+import { getPastedFiles, preprocessMedia } from '../services/mediaPreprocessing';
 
 interface ChatInterfaceProps {
   messages: ChatMessage[];
   onSendMessage: (text: string, files: File[]) => void;
   isLoading: boolean;
+  onStop: () => void;
   hasConfig: boolean;
-  onOpenSettings: () => void;
+  onOpenSettings?: () => void; // Omitted where settings are not available (embedded widget)
+  // Message actions; each is hidden when its handler is omitted
+  onEditMessage?: (messageId: string, text: string) => void;
+  onRetryMessage?: (messageId: string) => void;
+  onRegenerateMessage?: (messageId: string) => void;
+  onSwitchVersion?: (messageId: string, version: number) => void;
+  onFeedback?: (messageId: string, rating: FeedbackRating, comment?: string) => void;
+  historyWindow?: HistoryWindow; // What the next message will send as history
+  maxRecordingSeconds?: number; // Shows the microphone button when set
+  media?: MediaOptions; // Applied to pasted, captured and picked images
+  showCamera?: boolean; // Shows the camera button where the browser supports it
 }
 
 export const ChatInterface: React.FC<ChatInterfaceProps> = ({ 
   messages, 
   onSendMessage, 
   isLoading, 
+  onStop,
   hasConfig,
-  onOpenSettings 
+  onOpenSettings,
+  onEditMessage,
+  onRetryMessage,
+  onRegenerateMessage,
+  onSwitchVersion,
+  onFeedback,
+  historyWindow,
+  maxRecordingSeconds,
+  media = DEFAULT_CONFIG.media,
+  showCamera = false
 }) => {
   const [input, setInput] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState('');
   const [attachedFiles, setAttachedFiles] = useState<File[]>([]);
+  const [attachError, setAttachError] = useState<string | null>(null);
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
+  // Open source panels by message id, with the citation to highlight (if any)
+  const [openSources, setOpenSources] = useState<Record<string, number | null>>({});
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // Once the streamed reply has its first token, the growing bubble replaces the typing indicator.
+  // An empty placeholder (a regenerated reply) is hidden, so the indicator stays until then.
+  const isStreamingReply = messages.some(m => m.isStreaming && m.content);
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
@@ -31,9 +71,16 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
     scrollToBottom();
   }, [messages, isLoading, attachedFiles]);
 
+  const attachFiles = async (files: File[]) => {
+    const prepared = await Promise.allSettled(files.map(file => preprocessMedia(file, media)));
+    const failed = prepared.flatMap(p => p.status === 'rejected' ? [p.reason instanceof Error ? p.reason.message : "Could not process the image."] : []);
+    setAttachError(failed.length > 0 ? failed.join(' ') : null);
+    setAttachedFiles(prev => [...prev, ...prepared.flatMap(p => p.status === 'fulfilled' ? [p.value] : [])]);
+  };
+
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-      setAttachedFiles(prev => [...prev, ...Array.from(e.target.files!)]);
+      attachFiles(Array.from(e.target.files));
     }
     // Reset input so same file can be selected again if needed
     if (fileInputRef.current) {
@@ -41,6 +88,25 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
     }
   };
 
+  const toggleSources = (messageId: string) => {
+    setOpenSources(prev => {
+      const next = { ...prev };
+      if (messageId in next) {
+        delete next[messageId];
+      } else {
+        next[messageId] = null;
+      }
+      return next;
+    });
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLInputElement>) => {
+    const pasted = getPastedFiles(e.clipboardData);
+    if (pasted.length === 0) return; // Plain text pastes as usual
+    e.preventDefault();
+    attachFiles(pasted);
+  };
+
   const removeFile = (index: number) => {
     setAttachedFiles(prev => prev.filter((_, i) => i !== index));
   };
@@ -52,9 +118,23 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
     onSendMessage(input.trim(), attachedFiles);
     setInput('');
     setAttachedFiles([]);
+    setAttachError(null);
+  };
+
+  const startEditing = (msg: ChatMessage) => {
+    setEditingId(msg.id);
+    setEditDraft(msg.content);
   };
 
-  const getFileIcon = (mimeType: string) => {
+  const submitEdit = () => {
+    if (editingId && editDraft.trim() && onEditMessage) {
+      onEditMessage(editingId, editDraft.trim());
+    }
+    setEditingId(null);
+  };
+
+  const getFileIcon = (mimeType: string, name: string) => {
+    if (isVoiceFile(name)) return <Mic className="w-4 h-4" />;
     if (mimeType.startsWith('image/')) return <ImageIcon className="w-4 h-4" />;
     return <File className="w-4 h-4" />;
   };
@@ -69,12 +149,14 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
             <p className="text-slate-500 max-w-md mb-6">
                 Please configure your N8N Webhook URLs to start chatting. You need a "Chat Webhook" URL to send and receive messages.
             </p>
-            <button 
-                onClick={onOpenSettings}
-                className="px-6 py-2.5 bg-indigo-600 text-white rounded-lg font-medium hover:bg-indigo-700 transition-colors"
-            >
-                Open Settings
-            </button>
+            {onOpenSettings && (
+                <button 
+                    onClick={onOpenSettings}
+                    className="px-6 py-2.5 bg-indigo-600 text-white rounded-lg font-medium hover:bg-indigo-700 transition-colors"
+                >
+                    Open Settings
+                </button>
+            )}
         </div>
     );
   }
@@ -106,10 +188,10 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
           </div>
         )}
 
-        {messages.map((msg) => (
+        {messages.map((msg, index) => (
           <div
             key={msg.id}
-            className={`flex items-start gap-4 ${msg.role === MessageRole.USER ? 'flex-row-reverse' : ''}`}
+            className={`group flex items-start gap-4 ${msg.role === MessageRole.USER ? 'flex-row-reverse' : ''}`}
           >
             <div className={`
               w-8 h-8 rounded-full flex items-center justify-center flex-shrink-0
@@ -120,7 +202,36 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
             
             <div className={`flex flex-col gap-2 max-w-[80%] ${msg.role === MessageRole.USER ? 'items-end' : 'items-start'}`}>
                 {/* Text Content */}
-                {msg.content && (
+                {editingId === msg.id ? (
+                    <div className="w-full min-w-[280px] space-y-2">
+                        <textarea
+                            autoFocus
+                            value={editDraft}
+                            onChange={(e) => setEditDraft(e.target.value)}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); submitEdit(); }
+                                if (e.key === 'Escape') setEditingId(null);
+                            }}
+                            rows={3}
+                            className="w-full px-4 py-3 text-sm border border-indigo-200 rounded-2xl focus:outline-none focus:ring-2 focus:ring-indigo-500 resize-none"
+                        />
+                        <div className="flex justify-end gap-2">
+                            <button
+                                onClick={() => setEditingId(null)}
+                                className="px-3 py-1.5 text-xs font-medium text-slate-600 hover:text-slate-800 transition-colors"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                onClick={submitEdit}
+                                disabled={!editDraft.trim() || isLoading}
+                                className="px-3 py-1.5 text-xs font-medium bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+                            >
+                                Save & send
+                            </button>
+                        </div>
+                    </div>
+                ) : msg.content && (
                     <div className={`
                     rounded-2xl px-5 py-3 text-sm leading-relaxed
                     ${msg.role === MessageRole.USER 
@@ -129,7 +240,41 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
                         ? 'bg-red-50 text-red-700 border border-red-200 rounded-tl-sm' 
                         : 'bg-slate-100 text-slate-800 rounded-tl-sm'}
                     `}>
-                        {msg.content}
+                        {msg.role === MessageRole.ASSISTANT && !msg.isError
+                            ? <MarkdownMessage
+                                content={msg.content}
+                                citationIds={msg.sources?.map(s => s.id)}
+                                onCitationClick={(id) => setOpenSources(prev => ({ ...prev, [msg.id]: id }))}
+                              />
+                            : <span className="whitespace-pre-wrap">{msg.content}</span>}
+                        {msg.isStreaming && (
+                            <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-slate-400 animate-pulse" />
+                        )}
+                    </div>
+                )}
+
+                {/* Sources */}
+                {msg.sources && msg.sources.length > 0 && (
+                    <SourcesPanel
+                        sources={msg.sources}
+                        isOpen={msg.id in openSources}
+                        highlightedId={openSources[msg.id]}
+                        onToggle={() => toggleSources(msg.id)}
+                    />
+                )}
+
+                {/* Follow-up Suggestions (latest reply only) */}
+                {msg.suggestions && msg.suggestions.length > 0 && index === messages.length - 1 && !isLoading && (
+                    <div className="flex flex-wrap gap-2">
+                        {msg.suggestions.map((suggestion, i) => (
+                            <button
+                                key={i}
+                                onClick={() => onSendMessage(suggestion, [])}
+                                className="text-xs text-indigo-700 bg-indigo-50 hover:bg-indigo-100 border border-indigo-100 px-3 py-1.5 rounded-full transition-colors text-left"
+                            >
+                                {suggestion}
+                            </button>
+                        ))}
                     </div>
                 )}
 
@@ -138,18 +283,46 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
                     <div className="flex flex-wrap gap-2 mt-1">
                         {msg.attachments.map((att, idx) => (
                             <div key={idx} className="flex items-center gap-2 p-2 bg-slate-50 border border-slate-200 rounded-lg text-xs text-slate-700">
-                                {getFileIcon(att.type)}
+                                {getFileIcon(att.type, att.name)}
                                 <span className="max-w-[150px] truncate font-medium">{att.name}</span>
                                 <span className="text-slate-400">({(att.size / 1024).toFixed(0)}KB)</span>
                             </div>
                         ))}
                     </div>
                 )}
+
+                {msg.isQueued && (
+                    <span className="flex items-center gap-1 text-xs text-amber-600">
+                        <Clock className="w-3 h-3" /> Queued, will send when N8N is reachable
+                    </span>
+                )}
+
+                {!msg.isStreaming && !msg.isQueued && editingId !== msg.id && (
+                    <div className={`flex flex-wrap items-center gap-1 ${msg.role === MessageRole.USER ? 'justify-end' : ''}`}>
+                        <MessageActions
+                            message={msg}
+                            disabled={isLoading}
+                            onEdit={msg.role === MessageRole.USER && onEditMessage ? () => startEditing(msg) : undefined}
+                            onRegenerate={msg.role === MessageRole.ASSISTANT && !msg.isError && index === messages.length - 1 && index > 0 && onRegenerateMessage
+                                ? () => onRegenerateMessage(msg.id)
+                                : undefined}
+                            onRetry={msg.isError && onRetryMessage ? () => onRetryMessage(msg.id) : undefined}
+                            onSwitchVersion={onSwitchVersion ? (version) => onSwitchVersion(msg.id, version) : undefined}
+                        />
+                        {msg.role === MessageRole.ASSISTANT && !msg.isError && onFeedback && (
+                            <AnswerFeedback
+                                feedback={msg.feedback}
+                                disabled={msg.feedback?.status === 'sending'}
+                                onSubmit={(rating, comment) => onFeedback(msg.id, rating, comment)}
+                            />
+                        )}
+                    </div>
+                )}
             </div>
           </div>
         ))}
 
-        {isLoading && (
+        {isLoading && !isStreamingReply && (
           <div className="flex items-start gap-4 animate-pulse">
             <div className="w-8 h-8 rounded-full bg-emerald-600 text-white flex items-center justify-center">
                 <Bot className="w-5 h-5" />
@@ -168,11 +341,16 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
       <div className="p-4 border-t border-slate-100 bg-slate-50/50">
         
         {/* Attachment Preview */}
+        {attachError && (
+            <p className="flex items-start gap-1 mb-2 px-1 text-xs text-red-600">
+                <AlertCircle className="w-3 h-3 mt-0.5 flex-shrink-0" /> {attachError}
+            </p>
+        )}
         {attachedFiles.length > 0 && (
             <div className="flex flex-wrap gap-2 mb-3 px-1 animate-in slide-in-from-bottom-2">
                 {attachedFiles.map((file, index) => (
                     <div key={index} className="flex items-center gap-2 bg-white border border-indigo-100 shadow-sm pl-3 pr-2 py-1.5 rounded-lg group">
-                        <div className="text-indigo-500">{getFileIcon(file.type)}</div>
+                        <div className="text-indigo-500">{getFileIcon(file.type, file.name)}</div>
                         <span className="text-xs font-medium text-slate-700 truncate max-w-[120px]" title={file.name}>{file.name}</span>
                         <button onClick={() => removeFile(index)} className="p-0.5 hover:bg-red-50 rounded-md text-slate-400 hover:text-red-500 transition-colors">
                             <X className="w-3.5 h-3.5" />
@@ -207,29 +385,73 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
             <Paperclip className="w-5 h-5" />
           </button>
 
+          {showCamera && isCameraSupported() && (
+            <button
+              type="button"
+              onClick={() => setIsCameraOpen(true)}
+              disabled={isLoading}
+              className="flex-shrink-0 p-3 mb-0.5 rounded-xl transition-all text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 disabled:opacity-50"
+              title="Take a photo"
+            >
+              <Camera className="w-5 h-5" />
+            </button>
+          )}
+
+          {maxRecordingSeconds !== undefined && (
+            <VoiceRecorder
+              maxSeconds={maxRecordingSeconds}
+              disabled={isLoading}
+              onRecorded={(file) => setAttachedFiles(prev => [...prev, file])}
+            />
+          )}
+
           <div className="relative flex-1">
             <input
                 type="text"
                 value={input}
                 onChange={(e) => setInput(e.target.value)}
+                onPaste={handlePaste}
                 placeholder={attachedFiles.length > 0 ? "Enter a prompt about the files..." : "Type your message..."}
                 disabled={isLoading}
                 className="w-full pl-5 pr-12 py-3.5 bg-white border border-slate-200 rounded-xl shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent text-slate-700 placeholder-slate-400 disabled:opacity-60"
             />
-            <button
-                type="submit"
-                disabled={(!input.trim() && attachedFiles.length === 0) || isLoading}
-                className={`
-                absolute right-2 top-1/2 -translate-y-1/2 p-2 rounded-lg transition-all
-                ${(!input.trim() && attachedFiles.length === 0) || isLoading 
-                    ? 'bg-slate-100 text-slate-400' 
-                    : 'bg-indigo-600 text-white hover:bg-indigo-700 shadow-sm'}
-                `}
-            >
-                {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
-            </button>
+            {isLoading ? (
+              <button
+                  type="button"
+                  onClick={onStop}
+                  className="absolute right-2 top-1/2 -translate-y-1/2 p-2 rounded-lg transition-all bg-slate-800 text-white hover:bg-slate-900 shadow-sm"
+                  title="Stop generating"
+              >
+                  <Square className="w-4 h-4 fill-current" />
+              </button>
+            ) : (
+              <button
+                  type="submit"
+                  disabled={!input.trim() && attachedFiles.length === 0}
+                  className={`
+                  absolute right-2 top-1/2 -translate-y-1/2 p-2 rounded-lg transition-all
+                  ${!input.trim() && attachedFiles.length === 0
+                      ? 'bg-slate-100 text-slate-400' 
+                      : 'bg-indigo-600 text-white hover:bg-indigo-700 shadow-sm'}
+                  `}
+              >
+                  <Send className="w-4 h-4" />
+              </button>
+            )}
           </div>
         </form>
+
+        {isCameraOpen && (
+          <CameraCapture onCapture={(file) => attachFiles([file])} onClose={() => setIsCameraOpen(false)} />
+        )}
+
+        {historyWindow && historyWindow.totalCount > 0 && (
+            <p className="mt-2 text-center text-[11px] text-slate-400">
+                {historyWindow.entries.length === 0
+                    ? 'No history sent with the next message'
+                    : `History: ${historyWindow.sentCount} of ${historyWindow.totalCount} messages, ~${historyWindow.estimatedTokens.toLocaleString()} tokens${historyWindow.summarized ? ' including a summary of older turns' : ''}`}
+            </p>
+        )}
       </div>
     </div>
   );
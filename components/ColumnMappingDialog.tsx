@@ -0,0 +1,155 @@
+import React, { useMemo, useState } from 'react';
+import { Table2, X, TriangleAlert } from 'lucide-react';
+import { ColumnRole, TableData } from '../types';
+import { TABLE_PREVIEW_ROWS } from '../constants';
+import { buildRecords, hasTextColumn } from '../services/structuredData';
+
+interface ColumnMappingDialogProps {
+  fileName: string;
+  data: TableData;
+  mapping: ColumnRole[];
+  sendAsRecords: boolean;
+  onSave: (mapping: ColumnRole[], sendAsRecords: boolean) => void;
+  onClose: () => void;
+}
+
+const ROLE_OPTIONS: { value: ColumnRole; label: string }[] = [
+  { value: 'question', label: 'Question' },
+  { value: 'answer', label: 'Answer' },
+  { value: 'content', label: 'Content' },
+  { value: 'metadata', label: 'Metadata' },
+  { value: 'ignore', label: 'Ignore' }
+];
+
+const ROLE_STYLES: Record<ColumnRole, string> = {
+  question: 'bg-indigo-50 text-indigo-700 border-indigo-200',
+  answer: 'bg-emerald-50 text-emerald-700 border-emerald-200',
+  content: 'bg-sky-50 text-sky-700 border-sky-200',
+  metadata: 'bg-slate-50 text-slate-600 border-slate-200',
+  ignore: 'bg-white text-slate-400 border-slate-200'
+};
+
+/**
+ * Preview of a CSV, XLSX or JSON file with a role per column. Rows are sent as
+ * JSON records when `sendAsRecords` is on, otherwise the file goes as is.
+ */
+export const ColumnMappingDialog: React.FC<ColumnMappingDialogProps> = ({
+  fileName,
+  data,
+  mapping: initialMapping,
+  sendAsRecords: initialSendAsRecords,
+  onSave,
+  onClose
+}) => {
+  const [mapping, setMapping] = useState(initialMapping);
+  const [sendAsRecords, setSendAsRecords] = useState(initialSendAsRecords);
+  const canSendRecords = hasTextColumn(mapping);
+  const recordCount = useMemo(() => canSendRecords ? buildRecords(data, mapping).length : 0, [data, mapping, canSendRecords]);
+
+  const setRole = (column: number, role: ColumnRole) => {
+    setMapping(prev => prev.map((r, i) => i === column ? role : r));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl max-h-full flex flex-col overflow-hidden animate-in fade-in zoom-in duration-200">
+        <div className="flex items-center justify-between p-6 border-b border-slate-100">
+          <div className="flex items-center gap-2 text-indigo-600 min-w-0">
+            <Table2 className="w-5 h-5 flex-shrink-0" />
+            <h2 className="text-xl font-bold text-slate-900 truncate" title={fileName}>Map Columns · {fileName}</h2>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition-colors">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <p className="text-xs text-slate-500">
+            {data.rows.length.toLocaleString()} rows, {data.columns.length} columns{data.sheet && ` · sheet "${data.sheet}"`}.
+            {' '}Question, answer and content columns make up the text of each record; metadata columns are sent alongside it.
+          </p>
+          {data.truncated && (
+            <p className="flex items-start gap-1 text-xs text-amber-700">
+              <TriangleAlert className="w-3 h-3 mt-0.5 flex-shrink-0" />
+              The file has more rows than can be imported at once; only the first {data.rows.length.toLocaleString()} are kept.
+            </p>
+          )}
+
+          <div className="overflow-x-auto border border-slate-200 rounded-xl">
+            <table className="w-full text-xs">
+              <thead className="bg-slate-50 text-left">
+                <tr>
+                  {data.columns.map((column, i) => (
+                    <th key={i} className="px-3 py-2 font-medium text-slate-700 align-top min-w-[140px]">
+                      <p className="truncate mb-1" title={column}>{column}</p>
+                      <select
+                        value={mapping[i]}
+                        onChange={(e) => setRole(i, e.target.value as ColumnRole)}
+                        className={`w-full px-2 py-1 border rounded-lg text-xs font-medium focus:outline-none focus:ring-2 focus:ring-indigo-500 ${ROLE_STYLES[mapping[i]]}`}
+                      >
+                        {ROLE_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                      </select>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {data.rows.slice(0, TABLE_PREVIEW_ROWS).map((row, r) => (
+                  <tr key={r}>
+                    {row.map((cell, c) => (
+                      <td
+                        key={c}
+                        title={cell}
+                        className={`px-3 py-1.5 max-w-[240px] truncate ${mapping[c] === 'ignore' ? 'text-slate-300' : 'text-slate-600'}`}
+                      >
+                        {cell}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {data.rows.length > TABLE_PREVIEW_ROWS && (
+            <p className="text-xs text-slate-400">Showing the first {TABLE_PREVIEW_ROWS} rows.</p>
+          )}
+
+          <label className="flex items-start gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={sendAsRecords && canSendRecords}
+              disabled={!canSendRecords}
+              onChange={(e) => setSendAsRecords(e.target.checked)}
+              className="mt-0.5 w-4 h-4 text-indigo-600 rounded border-slate-300 focus:ring-indigo-500"
+            />
+            <span className="text-sm text-slate-700">
+              Send rows as structured JSON records
+              <span className="block text-xs text-slate-500">
+                {!canSendRecords
+                  ? 'Map at least one column as question, answer or content to send records.'
+                  : sendAsRecords
+                    ? `${recordCount.toLocaleString()} record(s) with text will be sent. Rows without text are skipped.`
+                    : 'The file will be uploaded as is, like any other document.'}
+              </span>
+            </span>
+          </label>
+        </div>
+
+        <div className="p-6 bg-slate-50 border-t border-slate-100 flex items-center justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-slate-600 hover:text-slate-800 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => { onSave(mapping, sendAsRecords && canSendRecords); onClose(); }}
+            className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm font-medium hover:bg-indigo-700 transition-colors shadow-sm"
+          >
+            Save mapping
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,103 @@
+import React, { useEffect, useState } from 'react';
+import { Activity, CheckCircle2, AlertTriangle, XCircle, Loader2, Send } from 'lucide-react';
+import { WebhookConfig } from '../types';
+import { DiagnosticMode, DiagnosticReport, DiagnosticStatus, DiagnosticTarget, runConnectionDiagnostics } from '../services/connectionDiagnostics';
+
+interface ConnectionDiagnosticsProps {
+  config: WebhookConfig; // The profile as currently edited, so unsaved changes are tested
+  target: DiagnosticTarget;
+}
+
+const STATUS_ICONS: Record<DiagnosticStatus, React.ReactNode> = {
+  pass: <CheckCircle2 className="w-4 h-4 text-emerald-500" />,
+  warn: <AlertTriangle className="w-4 h-4 text-amber-500" />,
+  fail: <XCircle className="w-4 h-4 text-red-500" />
+};
+
+/**
+ * "Test connection" (no workflow run) and "Send probe" buttons for a webhook URL, with a
+ * checklist report of the result.
+ */
+export const ConnectionDiagnostics: React.FC<ConnectionDiagnosticsProps> = ({ config, target }) => {
+  const [report, setReport] = useState<DiagnosticReport | null>(null);
+  const [reportMode, setReportMode] = useState<DiagnosticMode>('check');
+  const [isRunning, setIsRunning] = useState(false);
+  const url = target === 'chat' ? config.chatUrl : config.ingestionUrl;
+
+  // A report for another URL would be misleading
+  useEffect(() => {
+    setReport(null);
+  }, [url]);
+
+  const runTest = async (mode: DiagnosticMode) => {
+    if (mode === 'probe' && target === 'ingestion' && !window.confirm(
+      'This runs the ingestion workflow with a probe request (probe=true, no files). Unless the workflow skips probes, it may write to your knowledge base. Continue?'
+    )) return;
+    setIsRunning(true);
+    setReportMode(mode);
+    try {
+      setReport(await runConnectionDiagnostics(config, target, mode));
+    } catch (err) {
+      setReport({
+        url,
+        checks: [{ label: 'Probe', status: 'fail', detail: err instanceof Error ? err.message : "Unknown error" }]
+      });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="mt-2">
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => runTest('check')}
+          disabled={!url.trim() || isRunning}
+          className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-indigo-600 bg-indigo-50 rounded-lg hover:bg-indigo-100 transition-colors disabled:opacity-50"
+          title="Sends an OPTIONS request; the workflow does not run"
+        >
+          {isRunning && reportMode === 'check' ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Activity className="w-3.5 h-3.5" />}
+          Test connection
+        </button>
+        <button
+          onClick={() => runTest('probe')}
+          disabled={!url.trim() || isRunning}
+          className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-600 bg-slate-100 rounded-lg hover:bg-slate-200 transition-colors disabled:opacity-50"
+          title="POSTs a probe request (probe=true) that runs the workflow, to check its reply"
+        >
+          {isRunning && reportMode === 'probe' ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Send className="w-3.5 h-3.5" />}
+          Send probe
+        </button>
+      </div>
+
+      {report && (
+        <div className="mt-2 p-3 bg-slate-50 border border-slate-200 rounded-lg text-xs space-y-2">
+          <ul className="space-y-1.5">
+            {report.checks.map((check, i) => (
+              <li key={i} className="flex items-start gap-2">
+                <span className="flex-shrink-0">{STATUS_ICONS[check.status]}</span>
+                <span className="text-slate-700">
+                  <span className="font-medium">{check.label}</span>
+                  {check.detail && <span className="text-slate-500"> · {check.detail}</span>}
+                </span>
+              </li>
+            ))}
+          </ul>
+          {reportMode === 'check' && report.status !== undefined && (
+            <p className="text-slate-500">The workflow did not run, so its reply was not checked. Send a probe to check it.</p>
+          )}
+          {report.responseSample !== undefined && (
+            <div>
+              <span className="block text-slate-500 mb-1">
+                Raw response (HTTP {report.status}, {report.latencyMs} ms)
+              </span>
+              <pre className="max-h-32 overflow-auto p-2 bg-white border border-slate-200 rounded font-mono text-[11px] text-slate-600 whitespace-pre-wrap break-all">
+                {report.responseSample || '(empty)'}
+              </pre>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
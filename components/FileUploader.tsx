@@ -1,37 +1,143 @@
-import React, { useCallback, useRef } from 'react';
-import { UploadCloud, FileText, Image as ImageIcon, Film, Music, X, File, CheckCircle2, AlertCircle, Loader2 } from 'lucide-react';
-import { FileUploadItem, SUPPORTED_MIME_TYPES } from '../types';
-import { MAX_FILE_SIZE_MB } from '../constants';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { UploadCloud, FileText, Image as ImageIcon, Film, Music, X, File, CheckCircle2, AlertCircle, Loader2, Clock, Ban, Cog, ScanText, ChevronDown, ChevronRight, TriangleAlert, Camera, Globe, Table2 } from 'lucide-react';
+import { ColumnRole, FileUploadItem, FileUploadStatus, MediaOptions, SUPPORTED_MIME_TYPES, UploadLimits, UrlSourceItem } from '../types';
+import { DEFAULT_CONFIG } from '../constants';
+import { canExtractText, extractDocumentText } from '../services/documentExtraction';
+import { createVideoThumbnail, getPastedFiles, preprocessMedia } from '../services/mediaPreprocessing';
+import { getUploadType, validateFiles } from '../services/fileValidation';
+import { importTableFile, isTableFile } from '../services/structuredData';
+import { isFileDelivered } from '../services/ingestionResults';
+import { CameraCapture, isCameraSupported } from './CameraCapture';
+import { ColumnMappingDialog } from './ColumnMappingDialog';
 
 interface FileUploaderProps {
   files: FileUploadItem[];
   setFiles: React.Dispatch<React.SetStateAction<FileUploadItem[]>>;
   isProcessing: boolean;
+  extractText?: boolean; // Extract PDF/DOCX/TXT text in the browser as files are added
+  media?: MediaOptions;  // Image resizing and metadata stripping applied as files are added
+  limits?: UploadLimits;
+  profileId: string;     // Duplicates are checked against files already ingested for this profile
+  urlSources?: UrlSourceItem[]; // Web pages queued alongside the files
+  onRemoveUrlSource?: (id: string) => void;
 }
 
-export const FileUploader: React.FC<FileUploaderProps> = ({ files, setFiles, isProcessing }) => {
+interface StatusInfo {
+  status: FileUploadStatus;
+  progress?: number;
+  chunks?: number;
+  pages?: number;
+}
+
+// Characters of extracted text shown in the preview
+const PREVIEW_CHARS = 2000;
+
+const describeLimits = (limits: UploadLimits) => {
+  const sizes = [
+    limits.maxDocumentMb > 0 && `documents ${limits.maxDocumentMb} MB`,
+    limits.maxImageMb > 0 && `images ${limits.maxImageMb} MB`,
+    limits.maxAudioMb > 0 && `audio ${limits.maxAudioMb} MB`,
+    limits.maxVideoMb > 0 && `video ${limits.maxVideoMb} MB`
+  ].filter(Boolean);
+  return sizes.length > 0 ? `Max size: ${sizes.join(', ')}.` : '';
+};
+
+export const FileUploader: React.FC<FileUploaderProps> = ({
+  files,
+  setFiles,
+  isProcessing,
+  extractText = false,
+  media = DEFAULT_CONFIG.media,
+  limits = DEFAULT_CONFIG.uploadLimits,
+  profileId,
+  urlSources = [],
+  onRemoveUrlSource
+}) => {
   const inputRef = useRef<HTMLInputElement>(null);
+  const [previewId, setPreviewId] = useState<string | null>(null);
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
+  const [mappingId, setMappingId] = useState<string | null>(null);
+  const mappingItem = files.find(f => f.id === mappingId && f.table?.data);
 
-  const getFileType = (file: File): FileUploadItem['type'] => {
-    if (file.type.startsWith('image/')) return 'image';
-    if (file.type.startsWith('video/')) return 'video';
-    if (file.type.startsWith('audio/')) return 'audio';
-    return 'document';
-  };
+  // Extract one file at a time; pdf.js and mammoth are heavy on large documents
+  useEffect(() => {
+    if (!extractText) return;
+    const pendingItems = files.filter(f => f.status !== 'invalid' && !f.extraction && canExtractText(f.file));
+    if (pendingItems.length === 0) return;
+
+    const pendingIds = pendingItems.map(f => f.id);
+    setFiles(prev => prev.map(f => pendingIds.includes(f.id)
+      ? { ...f, extraction: { status: 'extracting', sections: [], charCount: 0 } }
+      : f));
+
+    (async () => {
+      for (const item of pendingItems) {
+        const extraction = await extractDocumentText(item.file);
+        setFiles(prev => prev.map(f => f.id === item.id ? { ...f, extraction } : f));
+      }
+    })();
+  }, [extractText, files, setFiles]);
 
-  const handleFiles = useCallback((incomingFiles: FileList | null) => {
-    if (!incomingFiles) return;
+  // Spreadsheets and JSON are parsed whether or not text extraction is on, for the column mapping
+  useEffect(() => {
+    const pendingItems = files.filter(f => f.status !== 'invalid' && !f.table && isTableFile(f.file));
+    if (pendingItems.length === 0) return;
 
-    const newFiles: FileUploadItem[] = Array.from(incomingFiles).map((file) => ({
+    const pendingIds = pendingItems.map(f => f.id);
+    setFiles(prev => prev.map(f => pendingIds.includes(f.id)
+      ? { ...f, table: { status: 'parsing', mapping: [], sendAsRecords: false } }
+      : f));
+
+    (async () => {
+      for (const item of pendingItems) {
+        const table = await importTableFile(item.file);
+        setFiles(prev => prev.map(f => f.id === item.id ? { ...f, table } : f));
+      }
+    })();
+  }, [files, setFiles]);
+
+  const handleFiles = useCallback(async (incomingFiles: FileList | File[] | null) => {
+    if (!incomingFiles || incomingFiles.length === 0) return;
+
+    const incoming = Array.from(incomingFiles);
+    const prepared = await Promise.allSettled(incoming.map(file => preprocessMedia(file, media)));
+    const accepted = prepared.flatMap(p => p.status === 'fulfilled' ? [p.value] : []);
+    const validated = await validateFiles(accepted, files.filter(f => f.status !== 'invalid'), limits, profileId);
+    // Images whose metadata could not be removed are listed as invalid so they are never sent
+    const unprocessed = prepared.flatMap((p, i) => p.status === 'rejected'
+      ? [{ file: incoming[i], hash: undefined, error: p.reason instanceof Error ? p.reason.message : "Could not process the image." }]
+      : []);
+    const newFiles: FileUploadItem[] = [...validated, ...unprocessed].map(({ file, hash, error }) => ({
       id: Math.random().toString(36).substring(7),
       file,
-      type: getFileType(file),
-      previewUrl: file.type.startsWith('image/') ? URL.createObjectURL(file) : undefined,
-      status: 'pending'
+      type: getUploadType(file),
+      previewUrl: !error && file.type.startsWith('image/') ? URL.createObjectURL(file) : undefined,
+      status: error ? 'invalid' : 'pending',
+      error,
+      hash
     }));
 
     setFiles((prev) => [...prev, ...newFiles]);
-  }, [setFiles]);
+
+    for (const item of newFiles.filter(f => f.type === 'video' && f.status !== 'invalid')) {
+      const previewUrl = await createVideoThumbnail(item.file);
+      if (previewUrl) setFiles(prev => prev.map(f => f.id === item.id ? { ...f, previewUrl } : f));
+    }
+  }, [setFiles, files, media, limits, profileId]);
+
+  // Screenshots pasted anywhere on the tab, except into a text field
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (isProcessing || target?.closest('input, textarea, [contenteditable="true"]')) return;
+      const pasted = getPastedFiles(e.clipboardData);
+      if (pasted.length === 0) return;
+      e.preventDefault();
+      handleFiles(pasted);
+    };
+    document.addEventListener('paste', handlePaste);
+    return () => document.removeEventListener('paste', handlePaste);
+  }, [handleFiles, isProcessing]);
 
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
@@ -50,6 +156,144 @@ export const FileUploader: React.FC<FileUploaderProps> = ({ files, setFiles, isP
     });
   };
 
+  const handleSaveMapping = (id: string, mapping: ColumnRole[], sendAsRecords: boolean) => {
+    setFiles(prev => prev.map(f => f.id === id && f.table ? { ...f, table: { ...f.table, mapping, sendAsRecords } } : f));
+  };
+
+  const getStatusLabel = (item: StatusInfo): string | null => {
+    switch (item.status) {
+      case 'queued': return 'Queued';
+      case 'uploading': return `Uploading ${Math.round((item.progress ?? 0) * 100)}%`;
+      case 'processing': return 'Processing in N8N';
+      case 'indexed': return [
+        'Indexed',
+        item.pages !== undefined && `${item.pages} pages`,
+        item.chunks !== undefined && `${item.chunks} chunks`
+      ].filter(Boolean).join(' · ');
+      case 'success': return [
+        'Sent',
+        item.pages !== undefined && `${item.pages} pages`,
+        item.chunks !== undefined && `${item.chunks} chunks`
+      ].filter(Boolean).join(' · ');
+      case 'rejected': return 'Rejected';
+      case 'invalid': return 'Not accepted';
+      case 'error': return 'Failed';
+      default: return null;
+    }
+  };
+
+  const renderExtraction = (item: FileUploadItem) => {
+    const extraction = item.extraction!;
+    switch (extraction.status) {
+      case 'extracting':
+        return (
+          <p className="flex items-center gap-1 text-xs mt-1 text-slate-500">
+            <Loader2 className="w-3 h-3 animate-spin" /> Extracting text...
+          </p>
+        );
+      case 'empty':
+        return (
+          <p className="flex items-start gap-1 text-xs mt-1 text-amber-700">
+            <TriangleAlert className="w-3 h-3 mt-0.5 flex-shrink-0" />
+            No text layer found, likely a scanned document. The original file will be sent for OCR.
+          </p>
+        );
+      case 'error':
+        return (
+          <p className="flex items-start gap-1 text-xs mt-1 text-amber-700" title={extraction.error}>
+            <TriangleAlert className="w-3 h-3 mt-0.5 flex-shrink-0" />
+            Text extraction failed. The original file will be sent.
+          </p>
+        );
+      case 'done': {
+        const isOpen = previewId === item.id;
+        const text = extraction.sections.map(s => s.text).join('\n\n');
+        return (
+          <div className="mt-1">
+            <button
+              onClick={(e) => { e.stopPropagation(); setPreviewId(isOpen ? null : item.id); }}
+              className="flex items-center gap-1 text-xs text-indigo-600 hover:text-indigo-700"
+            >
+              {isOpen ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+              <ScanText className="w-3 h-3" />
+              {extraction.charCount.toLocaleString()} chars
+              {extraction.pageCount !== undefined && ` · ${extraction.pageCount} pages`}
+            </button>
+            {isOpen && (
+              <pre className="mt-1 max-h-40 overflow-y-auto p-2 bg-slate-50 border border-slate-200 rounded text-[11px] text-slate-600 whitespace-pre-wrap break-words font-sans">
+                {text.slice(0, PREVIEW_CHARS)}
+                {text.length > PREVIEW_CHARS && '\n…'}
+              </pre>
+            )}
+          </div>
+        );
+      }
+      default:
+        return null;
+    }
+  };
+
+  const renderStatusLabel = (item: StatusInfo) => getStatusLabel(item) && (
+    <>
+      <span className="text-xs text-slate-300">•</span>
+      <span className={`text-xs font-medium ${
+        item.status === 'indexed' || item.status === 'success' ? 'text-emerald-600'
+        : item.status === 'rejected' || item.status === 'invalid' ? 'text-amber-600'
+        : item.status === 'error' ? 'text-red-600'
+        : 'text-indigo-600'
+      }`}>{getStatusLabel(item)}</span>
+    </>
+  );
+
+  const renderStatusIndicator = (status: FileUploadStatus, onRemove: () => void) => (
+    <div className="flex items-center gap-2 pr-2">
+       {status === 'queued' && <Clock className="w-5 h-5 text-slate-400" />}
+       {status === 'uploading' && <Loader2 className="w-5 h-5 text-indigo-500 animate-spin" />}
+       {status === 'processing' && <Cog className="w-5 h-5 text-indigo-500 animate-spin" />}
+       {(status === 'success' || status === 'indexed') && <CheckCircle2 className="w-5 h-5 text-emerald-500" />}
+       {(status === 'rejected' || status === 'invalid') && <Ban className="w-5 h-5 text-amber-500" />}
+       {status === 'error' && <AlertCircle className="w-5 h-5 text-red-500" />}
+
+       {(status === 'pending' || status === 'invalid' || ((status === 'error' || status === 'rejected') && !isProcessing)) && (
+          <button
+              onClick={(e) => { e.stopPropagation(); onRemove(); }}
+              className="p-1 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-md transition-colors"
+          >
+              <X className="w-4 h-4" />
+          </button>
+       )}
+    </div>
+  );
+
+  const renderTable = (item: FileUploadItem) => {
+    const table = item.table!;
+    if (table.status === 'parsing') {
+      return (
+        <p className="flex items-center gap-1 text-xs mt-1 text-slate-500">
+          <Loader2 className="w-3 h-3 animate-spin" /> Reading rows...
+        </p>
+      );
+    }
+    if (table.status === 'error' || !table.data) {
+      return (
+        <p className="flex items-start gap-1 text-xs mt-1 text-amber-700" title={table.error}>
+          <TriangleAlert className="w-3 h-3 mt-0.5 flex-shrink-0" />
+          Could not read the rows. The file will be sent as is.
+        </p>
+      );
+    }
+    return (
+      <button
+        onClick={(e) => { e.stopPropagation(); setMappingId(item.id); }}
+        disabled={isProcessing || isFileDelivered(item.status)}
+        className="flex items-center gap-1 mt-1 text-xs text-indigo-600 hover:text-indigo-700 disabled:text-slate-400"
+      >
+        <Table2 className="w-3 h-3" />
+        {table.data.rows.length.toLocaleString()} rows · {table.sendAsRecords ? 'sent as records' : 'sent as file'} · Map columns
+      </button>
+    );
+  };
+
   const getIcon = (type: FileUploadItem['type']) => {
     switch (type) {
       case 'image': return <ImageIcon className="w-5 h-5" />;
@@ -76,7 +320,7 @@ export const FileUploader: React.FC<FileUploaderProps> = ({ files, setFiles, isP
           type="file"
           multiple
           className="hidden"
-          accept={Object.keys(SUPPORTED_MIME_TYPES).join(',')}
+          accept={[...Object.keys(SUPPORTED_MIME_TYPES), '.csv', '.xlsx', '.json'].join(',')}
           onChange={(e) => handleFiles(e.target.files)}
           disabled={isProcessing}
         />
@@ -89,13 +333,38 @@ export const FileUploader: React.FC<FileUploaderProps> = ({ files, setFiles, isP
           Click or Drag files to upload
         </h3>
         <p className="text-sm text-slate-500 mt-2 max-w-sm">
-          Support PDF, DOCX, TXT, Images, Audio (MP3/WAV) & Video (MP4).
-          <br />Max file size: {MAX_FILE_SIZE_MB}MB
+          Support PDF, DOCX, TXT, CSV/XLSX/JSON, Images, Audio (MP3/WAV) & Video (MP4).
+          <br />Paste screenshots with Ctrl+V. {describeLimits(limits)}
         </p>
+        {isCameraSupported() && (
+          <button
+            type="button"
+            onClick={(e) => { e.stopPropagation(); setIsCameraOpen(true); }}
+            disabled={isProcessing}
+            className="mt-4 flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-indigo-600 border border-indigo-200 rounded-lg hover:bg-indigo-50 transition-colors"
+          >
+            <Camera className="w-4 h-4" /> Take a photo
+          </button>
+        )}
       </div>
 
+      {mappingItem && (
+        <ColumnMappingDialog
+          fileName={mappingItem.file.name}
+          data={mappingItem.table!.data!}
+          mapping={mappingItem.table!.mapping}
+          sendAsRecords={mappingItem.table!.sendAsRecords}
+          onSave={(mapping, sendAsRecords) => handleSaveMapping(mappingItem.id, mapping, sendAsRecords)}
+          onClose={() => setMappingId(null)}
+        />
+      )}
+
+      {isCameraOpen && (
+        <CameraCapture onCapture={(file) => handleFiles([file])} onClose={() => setIsCameraOpen(false)} />
+      )}
+
       {/* File List */}
-      {files.length > 0 && (
+      {(files.length > 0 || urlSources.length > 0) && (
         <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 animate-in fade-in slide-in-from-bottom-4">
           {files.map((item) => (
             <div key={item.id} className="group relative flex items-center gap-3 p-3 bg-white border border-slate-200 rounded-lg shadow-sm hover:shadow-md transition-all">
@@ -117,24 +386,56 @@ export const FileUploader: React.FC<FileUploaderProps> = ({ files, setFiles, isP
                    <span className="text-xs text-slate-400 uppercase">{item.file.name.split('.').pop()}</span>
                    <span className="text-xs text-slate-300">•</span>
                    <span className="text-xs text-slate-400">{(item.file.size / 1024 / 1024).toFixed(2)} MB</span>
+                   {renderStatusLabel(item)}
                 </div>
+                {item.status === 'uploading' && (
+                  <div className="mt-2 h-1 w-full bg-slate-100 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-indigo-500 transition-all duration-200"
+                      style={{ width: `${Math.round((item.progress ?? 0) * 100)}%` }}
+                    />
+                  </div>
+                )}
+                {(item.status === 'error' || item.status === 'rejected' || item.status === 'invalid') && item.error && (
+                  <p className={`text-xs mt-1 truncate ${item.status === 'error' ? 'text-red-600' : 'text-amber-700'}`} title={item.error}>
+                    {item.error}
+                  </p>
+                )}
+                {extractText && item.extraction && renderExtraction(item)}
+                {item.table && renderTable(item)}
               </div>
 
               {/* Status Indicator */}
-              <div className="flex items-center gap-2 pr-2">
-                 {item.status === 'uploading' && <Loader2 className="w-5 h-5 text-indigo-500 animate-spin" />}
-                 {item.status === 'success' && <CheckCircle2 className="w-5 h-5 text-emerald-500" />}
-                 {item.status === 'error' && <AlertCircle className="w-5 h-5 text-red-500" />}
-                 
-                 {item.status === 'pending' && (
-                    <button 
-                        onClick={(e) => { e.stopPropagation(); handleRemove(item.id); }}
-                        className="p-1 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-md transition-colors"
-                    >
-                        <X className="w-4 h-4" />
-                    </button>
-                 )}
+              {renderStatusIndicator(item.status, () => handleRemove(item.id))}
+            </div>
+          ))}
+          {urlSources.map((source) => (
+            <div key={source.id} className="group relative flex items-center gap-3 p-3 bg-white border border-slate-200 rounded-lg shadow-sm hover:shadow-md transition-all">
+              <div className="w-12 h-12 flex-shrink-0 bg-slate-100 rounded-md flex items-center justify-center text-slate-500">
+                <Globe className="w-5 h-5" />
               </div>
+
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-slate-800 truncate" title={source.url}>
+                  {source.url}
+                </p>
+                <div className="flex items-center gap-2 mt-1">
+                   <span className="text-xs text-slate-400 uppercase">{source.kind}</span>
+                   <span className="text-xs text-slate-300">•</span>
+                   <span className="text-xs text-slate-400">
+                     Depth {source.crawl.depth}
+                     {(source.crawl.includePatterns.length > 0 || source.crawl.excludePatterns.length > 0) && ', filtered'}
+                   </span>
+                   {renderStatusLabel(source)}
+                </div>
+                {(source.status === 'error' || source.status === 'rejected') && source.error && (
+                  <p className={`text-xs mt-1 truncate ${source.status === 'error' ? 'text-red-600' : 'text-amber-700'}`} title={source.error}>
+                    {source.error}
+                  </p>
+                )}
+              </div>
+
+              {renderStatusIndicator(source.status, () => onRemoveUrlSource?.(source.id))}
             </div>
           ))}
         </div>
@@ -0,0 +1,264 @@
+import React, { useMemo, useState } from 'react';
+import { History, Search, ChevronDown, ChevronRight, RotateCcw, Trash2, Loader2, Paperclip } from 'lucide-react';
+import { IngestionLogEntry, IngestionLogOutcome, WebhookProfile } from '../types';
+import { canRerun } from '../services/ingestionLog';
+
+interface IngestionLogPanelProps {
+  entries: IngestionLogEntry[];
+  profiles: WebhookProfile[];
+  activeProfileId: string;
+  rerunningId: string | null;
+  onRerun: (entryId: string, profileId: string) => void;
+  onDelete: (entryId: string) => void;
+}
+
+const OUTCOME_STYLES: Record<IngestionLogOutcome, { label: string; className: string }> = {
+  success: { label: 'Success', className: 'bg-emerald-50 text-emerald-700' },
+  partial: { label: 'Partial', className: 'bg-amber-50 text-amber-700' },
+  failed: { label: 'Failed', className: 'bg-red-50 text-red-700' },
+  queued: { label: 'Queued', className: 'bg-slate-100 text-slate-600' },
+  cancelled: { label: 'Cancelled', className: 'bg-slate-100 text-slate-500' }
+};
+
+const formatSize = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+
+const formatDuration = (ms: number) => ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+
+const describeFiles = (entry: IngestionLogEntry) => {
+  const names = [...entry.files.map(f => f.name), ...(entry.urls ?? []).map(u => u.url)];
+  if (names.length === 0) return 'Text only';
+  if (names.length === 1) return names[0];
+  return `${names[0]} +${names.length - 1} more`;
+};
+
+/**
+ * Past ingestion batches with their outcome. A batch can be re-sent to any profile's
+ * ingestion webhook when its files were kept (or it had none).
+ */
+export const IngestionLogPanel: React.FC<IngestionLogPanelProps> = ({
+  entries,
+  profiles,
+  activeProfileId,
+  rerunningId,
+  onRerun,
+  onDelete
+}) => {
+  const [search, setSearch] = useState('');
+  const [outcomeFilter, setOutcomeFilter] = useState<IngestionLogOutcome | 'all'>('all');
+  const [profileFilter, setProfileFilter] = useState('all');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [rerunProfileId, setRerunProfileId] = useState(activeProfileId);
+
+  const loggedProfiles = useMemo(
+    () => Array.from(new Map(entries.map(e => [e.profileId, e.profileName])).entries()),
+    [entries]
+  );
+
+  const visibleEntries = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return entries.filter(entry =>
+      (outcomeFilter === 'all' || entry.outcome === outcomeFilter) &&
+      (profileFilter === 'all' || entry.profileId === profileFilter) &&
+      (!query || entry.files.some(f => f.name.toLowerCase().includes(query)) ||
+        entry.urls?.some(u => u.url.toLowerCase().includes(query)) || entry.textContext.toLowerCase().includes(query)));
+  }, [entries, search, outcomeFilter, profileFilter]);
+
+  const toggleExpanded = (id: string) => {
+    setExpandedId(prev => prev === id ? null : id);
+    setRerunProfileId(activeProfileId);
+  };
+
+  const renderDetails = (entry: IngestionLogEntry) => (
+    <div className="space-y-3 text-xs text-slate-600">
+      <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1">
+        <dt className="text-slate-400">Batch</dt><dd className="font-mono break-all">{entry.id}</dd>
+        <dt className="text-slate-400">Webhook</dt><dd className="font-mono break-all">{entry.ingestionUrl || '—'}</dd>
+        {entry.rerunOf && (<><dt className="text-slate-400">Re-run of</dt><dd className="font-mono break-all">{entry.rerunOf}</dd></>)}
+        {entry.error && (<><dt className="text-slate-400">Error</dt><dd className="text-red-600">{entry.error}</dd></>)}
+      </dl>
+
+      {entry.textContext && (
+        <div>
+          <p className="font-medium text-slate-700 mb-1">Text context</p>
+          <p className="p-2 bg-white border border-slate-200 rounded whitespace-pre-wrap">{entry.textContext}</p>
+        </div>
+      )}
+
+      {entry.files.length > 0 && (
+        <div>
+          <p className="font-medium text-slate-700 mb-1">Files</p>
+          <ul className="divide-y divide-slate-100 bg-white border border-slate-200 rounded">
+            {entry.files.map((file, index) => (
+              <li key={index} className="flex items-center gap-2 px-2 py-1.5">
+                <span className="flex-1 min-w-0 truncate" title={file.name}>{file.name}</span>
+                <span className="text-slate-400">{formatSize(file.size)}</span>
+                {file.hash && <span className="font-mono text-slate-400" title={`SHA-256 ${file.hash}`}>{file.hash.slice(0, 8)}</span>}
+                {file.mapping && <span className="text-slate-400" title={file.mapping.join(', ')}>as records</span>}
+                <span className={file.error ? 'text-red-600' : 'text-slate-500'} title={file.error}>
+                  {file.status}{file.chunks !== undefined && ` · ${file.chunks} chunks`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {entry.urls && entry.urls.length > 0 && (
+        <div>
+          <p className="font-medium text-slate-700 mb-1">Web pages</p>
+          <ul className="divide-y divide-slate-100 bg-white border border-slate-200 rounded">
+            {entry.urls.map((source, index) => (
+              <li key={index} className="flex items-center gap-2 px-2 py-1.5">
+                <span className="flex-1 min-w-0 truncate font-mono" title={source.url}>{source.url}</span>
+                <span className="text-slate-400">{source.kind}, depth {source.crawl.depth}</span>
+                <span className={source.error ? 'text-red-600' : 'text-slate-500'} title={source.error}>
+                  {source.status}{source.pages !== undefined && ` · ${source.pages} pages`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {entry.responseText && (
+        <div>
+          <p className="font-medium text-slate-700 mb-1">Response</p>
+          <pre className="max-h-40 overflow-y-auto p-2 bg-white border border-slate-200 rounded whitespace-pre-wrap break-words">{entry.responseText}</pre>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 pt-1">
+        {canRerun(entry) ? (
+          <>
+            <select
+              value={rerunProfileId}
+              onChange={(e) => setRerunProfileId(e.target.value)}
+              className="px-2 py-1.5 border border-slate-200 rounded-lg text-xs bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              {profiles.map(p => (
+                <option key={p.id} value={p.id} disabled={!p.ingestionUrl}>
+                  {p.name}{p.id === entry.profileId ? ' (original)' : ''}{!p.ingestionUrl ? ' (no ingestion URL)' : ''}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => onRerun(entry.id, rerunProfileId)}
+              disabled={!!rerunningId}
+              className="flex items-center gap-1 px-3 py-1.5 font-medium bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+            >
+              {rerunningId === entry.id ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <RotateCcw className="w-3.5 h-3.5" />}
+              Re-run
+            </button>
+          </>
+        ) : (
+          <span className="text-slate-400">Files were not kept, so this batch cannot be re-run. Enable "Keep file copies" in Settings.</span>
+        )}
+        <button
+          onClick={() => onDelete(entry.id)}
+          className="ml-auto flex items-center gap-1 px-2 py-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors"
+        >
+          <Trash2 className="w-3.5 h-3.5" /> Delete
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <label className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+        <History className="w-4 h-4 text-indigo-600" /> Ingestion History
+      </label>
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-slate-400">Batches sent to N8N will be listed here.</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-2">
+            <div className="relative flex-1 min-w-[160px]">
+              <Search className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+              <input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search file names, URLs or context..."
+                className="w-full pl-9 pr-3 py-2 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            </div>
+            <select
+              value={outcomeFilter}
+              onChange={(e) => setOutcomeFilter(e.target.value as IngestionLogOutcome | 'all')}
+              className="px-3 py-2 border border-slate-200 rounded-lg text-sm bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              <option value="all">All outcomes</option>
+              {(Object.keys(OUTCOME_STYLES) as IngestionLogOutcome[]).map(outcome => (
+                <option key={outcome} value={outcome}>{OUTCOME_STYLES[outcome].label}</option>
+              ))}
+            </select>
+            {loggedProfiles.length > 1 && (
+              <select
+                value={profileFilter}
+                onChange={(e) => setProfileFilter(e.target.value)}
+                className="px-3 py-2 border border-slate-200 rounded-lg text-sm bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                <option value="all">All profiles</option>
+                {loggedProfiles.map(([id, name]) => <option key={id} value={id}>{name}</option>)}
+              </select>
+            )}
+          </div>
+
+          <div className="overflow-x-auto border border-slate-200 rounded-xl">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 text-xs text-slate-500 text-left">
+                <tr>
+                  <th className="w-8" />
+                  <th className="px-3 py-2 font-medium">When</th>
+                  <th className="px-3 py-2 font-medium">Profile</th>
+                  <th className="px-3 py-2 font-medium">Files</th>
+                  <th className="px-3 py-2 font-medium">Outcome</th>
+                  <th className="px-3 py-2 font-medium text-right">Duration</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {visibleEntries.map(entry => {
+                  const isExpanded = expandedId === entry.id;
+                  const totalSize = entry.files.reduce((sum, f) => sum + f.size, 0);
+                  return (
+                    <React.Fragment key={entry.id}>
+                      <tr onClick={() => toggleExpanded(entry.id)} className="cursor-pointer hover:bg-slate-50">
+                        <td className="pl-3 text-slate-400">
+                          {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                        </td>
+                        <td className="px-3 py-2 whitespace-nowrap text-slate-600">{new Date(entry.startedAt).toLocaleString()}</td>
+                        <td className="px-3 py-2 text-slate-600 truncate max-w-[120px]" title={entry.ingestionUrl}>{entry.profileName}</td>
+                        <td className="px-3 py-2 text-slate-800 max-w-[220px]">
+                          <div className="flex items-center gap-1">
+                            <span className="truncate" title={[...entry.files.map(f => f.name), ...(entry.urls ?? []).map(u => u.url)].join('\n')}>{describeFiles(entry)}</span>
+                            {entry.retainedFiles && <span title="File copies kept for re-run"><Paperclip className="w-3 h-3 text-slate-400 flex-shrink-0" /></span>}
+                          </div>
+                          {entry.files.length > 0 && <span className="text-xs text-slate-400">{formatSize(totalSize)}</span>}
+                        </td>
+                        <td className="px-3 py-2">
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${OUTCOME_STYLES[entry.outcome].className}`}>
+                            {OUTCOME_STYLES[entry.outcome].label}
+                          </span>
+                        </td>
+                        <td className="px-3 py-2 text-right text-slate-500 whitespace-nowrap">{formatDuration(entry.durationMs)}</td>
+                      </tr>
+                      {isExpanded && (
+                        <tr className="bg-slate-50/60">
+                          <td colSpan={6} className="px-4 py-3">{renderDetails(entry)}</td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  );
+                })}
+                {visibleEntries.length === 0 && (
+                  <tr><td colSpan={6} className="px-3 py-6 text-center text-sm text-slate-400">No batches match the filters.</td></tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
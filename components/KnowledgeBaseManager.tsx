@@ -0,0 +1,217 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Search, RefreshCw, Trash2, RotateCcw, FileText, Image as ImageIcon, Film, Music, AlertCircle, Loader2, Library } from 'lucide-react';
+import { KnowledgeDocument, WebhookConfig } from '../types';
+import { deleteDocument, listDocuments, reingestDocument } from '../services/knowledgeBaseService';
+
+interface KnowledgeBaseManagerProps {
+  config: WebhookConfig;
+  onOpenSettings: () => void;
+}
+
+export const KnowledgeBaseManager: React.FC<KnowledgeBaseManagerProps> = ({ config, onOpenSettings }) => {
+  const [documents, setDocuments] = useState<KnowledgeDocument[]>([]);
+  const [total, setTotal] = useState<number | undefined>();
+  const [search, setSearch] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  // Ids of documents with a delete or re-ingest in flight
+  const [busyIds, setBusyIds] = useState<string[]>([]);
+
+  const refresh = useCallback(async () => {
+    if (!config.listDocumentsUrl) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const result = await listDocuments(config);
+      setDocuments(result.documents);
+      setTotal(result.total);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [config]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const runDocumentAction = async (doc: KnowledgeDocument, action: () => Promise<unknown>, successMsg: string) => {
+    setBusyIds(prev => [...prev, doc.id]);
+    setError(null);
+    setNotice(null);
+    try {
+      await action();
+      setNotice(successMsg);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setBusyIds(prev => prev.filter(id => id !== doc.id));
+    }
+  };
+
+  const handleDelete = (doc: KnowledgeDocument) => {
+    if (!window.confirm(`Delete "${doc.name}" and its ${doc.chunks} chunks from the knowledge base?`)) return;
+    runDocumentAction(doc, async () => {
+      await deleteDocument(config, doc.id);
+      setDocuments(prev => prev.filter(d => d.id !== doc.id));
+      setTotal(prev => prev !== undefined ? prev - 1 : prev);
+    }, `Deleted "${doc.name}".`);
+  };
+
+  const handleReingest = (doc: KnowledgeDocument) => {
+    runDocumentAction(doc, () => reingestDocument(config, doc.id), `Re-ingestion of "${doc.name}" started.`);
+  };
+
+  const getIcon = (mimeType: string) => {
+    if (mimeType.startsWith('image/')) return <ImageIcon className="w-4 h-4" />;
+    if (mimeType.startsWith('video/')) return <Film className="w-4 h-4" />;
+    if (mimeType.startsWith('audio/')) return <Music className="w-4 h-4" />;
+    return <FileText className="w-4 h-4" />;
+  };
+
+  const formatSize = (bytes: number) => {
+    if (bytes >= 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+    return `${(bytes / 1024).toFixed(0)} KB`;
+  };
+
+  const formatDate = (iso: string) => {
+    const date = new Date(iso);
+    return isNaN(date.getTime()) ? '—' : date.toLocaleString();
+  };
+
+  const query = search.trim().toLowerCase();
+  const visibleDocuments = query
+    ? documents.filter(d => d.name.toLowerCase().includes(query) || d.type.toLowerCase().includes(query))
+    : documents;
+
+  if (!config.listDocumentsUrl) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center p-8 text-center bg-white rounded-2xl border border-slate-200 shadow-sm">
+        <div className="w-16 h-16 bg-amber-50 text-amber-500 rounded-full flex items-center justify-center mb-4">
+          <AlertCircle className="w-8 h-8" />
+        </div>
+        <h3 className="text-xl font-bold text-slate-800 mb-2">Configuration Needed</h3>
+        <p className="text-slate-500 max-w-md mb-6">
+          Add a "List Documents" webhook URL to this profile to browse what your bot has been trained on.
+        </p>
+        <button
+          onClick={onOpenSettings}
+          className="px-6 py-2.5 bg-indigo-600 text-white rounded-lg font-medium hover:bg-indigo-700 transition-colors"
+        >
+          Open Settings
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <h1 className="text-2xl md:text-3xl font-bold text-slate-900">Documents</h1>
+        <p className="text-slate-500">
+          Everything the workflow has ingested into the knowledge base{total !== undefined ? ` (${total} documents)` : ''}.
+        </p>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search by name or type..."
+            className="w-full pl-10 pr-4 py-2.5 bg-white border border-slate-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-indigo-500 text-sm"
+          />
+        </div>
+        <button
+          onClick={refresh}
+          disabled={isLoading}
+          className="flex items-center gap-2 px-4 py-2.5 bg-white border border-slate-200 rounded-xl text-sm font-medium text-slate-600 hover:text-indigo-600 hover:border-indigo-300 transition-colors disabled:opacity-50"
+        >
+          <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+          Refresh
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-3 rounded-lg text-sm font-medium whitespace-pre-wrap bg-red-50 text-red-700 border border-red-200">
+          {error}
+        </div>
+      )}
+      {notice && (
+        <div className="p-3 rounded-lg text-sm font-medium bg-emerald-50 text-emerald-700 border border-emerald-200">
+          {notice}
+        </div>
+      )}
+
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs font-semibold uppercase tracking-wide text-slate-400 border-b border-slate-100">
+              <th className="px-4 py-3">Name</th>
+              <th className="px-4 py-3">Type</th>
+              <th className="px-4 py-3 text-right">Size</th>
+              <th className="px-4 py-3">Ingested</th>
+              <th className="px-4 py-3 text-right">Chunks</th>
+              <th className="px-4 py-3"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {visibleDocuments.map(doc => {
+              const isBusy = busyIds.includes(doc.id);
+              return (
+                <tr key={doc.id} className="border-b border-slate-50 last:border-0 hover:bg-slate-50/50">
+                  <td className="px-4 py-3">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <span className="text-slate-400 flex-shrink-0">{getIcon(doc.type)}</span>
+                      <span className="font-medium text-slate-800 truncate max-w-[240px]" title={doc.name}>{doc.name}</span>
+                    </div>
+                  </td>
+                  <td className="px-4 py-3 text-slate-500">{doc.type || '—'}</td>
+                  <td className="px-4 py-3 text-slate-500 text-right whitespace-nowrap">{formatSize(doc.size)}</td>
+                  <td className="px-4 py-3 text-slate-500 whitespace-nowrap">{formatDate(doc.ingestedAt)}</td>
+                  <td className="px-4 py-3 text-slate-500 text-right">{doc.chunks}</td>
+                  <td className="px-4 py-3">
+                    <div className="flex items-center justify-end gap-1">
+                      {isBusy ? (
+                        <Loader2 className="w-4 h-4 text-indigo-500 animate-spin" />
+                      ) : (
+                        <>
+                          <button
+                            onClick={() => handleReingest(doc)}
+                            className="p-1.5 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-md transition-colors"
+                            title="Re-ingest"
+                          >
+                            <RotateCcw className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDelete(doc)}
+                            disabled={!config.deleteDocumentUrl}
+                            className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-md transition-colors disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-slate-400"
+                            title={config.deleteDocumentUrl ? 'Delete' : 'Configure a Delete Document webhook to enable'}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        {!isLoading && visibleDocuments.length === 0 && (
+          <div className="flex flex-col items-center justify-center py-12 text-center text-slate-400">
+            <Library className="w-8 h-8 mb-2" />
+            <p className="text-sm">{query ? 'No documents match your search.' : 'No documents ingested yet.'}</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,154 @@
+import React, { useMemo, useState } from 'react';
+import ReactMarkdown, { Components, ExtraProps, Options } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import rehypeRaw from 'rehype-raw';
+import rehypeSanitize, { defaultSchema } from 'rehype-sanitize';
+import rehypeHighlight from 'rehype-highlight';
+import { Check, Copy } from 'lucide-react';
+
+interface MarkdownMessageProps {
+  content: string;
+  citationIds?: number[];              // Ids of the message's sources; matching [n] markers become clickable
+  onCitationClick?: (id: number) => void;
+}
+
+// Minimal shape of the hast nodes react-markdown hands to custom components
+interface HastNode {
+  type: string;
+  value?: string;
+  children?: HastNode[];
+}
+
+const getNodeText = (node?: HastNode): string => {
+  if (!node) return '';
+  if (node.type === 'text') return node.value ?? '';
+  return (node.children ?? []).map(getNodeText).join('');
+};
+
+const CITATION_HREF_PREFIX = '#cite-';
+// Fenced and inline code, left untouched when linking citation markers
+const CODE_PATTERN = /(```[\s\S]*?```|`[^`\n]*`)/g;
+
+/**
+ * Turns `[n]` markers that refer to a known source into `#cite-n` links.
+ */
+const linkCitationMarkers = (content: string, citationIds: number[]): string => {
+  if (citationIds.length === 0) return content;
+  return content
+    .split(CODE_PATTERN)
+    .map((part, i) => i % 2 === 1 ? part : part.replace(/\[(\d+)\](?![(:])/g, (match, n) =>
+      citationIds.includes(Number(n)) ? `[${n}](${CITATION_HREF_PREFIX}${n})` : match
+    ))
+    .join('');
+};
+
+/**
+ * Raw HTML in answers is parsed and then sanitized with GitHub's allow-list, so content
+ * injected through a poisoned knowledge base document cannot run script in the chat.
+ * Highlighting runs after sanitizing so its `hljs-*` classes are kept.
+ */
+const REHYPE_PLUGINS: Options['rehypePlugins'] = [
+  rehypeRaw,
+  [rehypeSanitize, defaultSchema],
+  [rehypeHighlight, { detect: true }]
+];
+
+const CodeBlock: React.FC<React.HTMLAttributes<HTMLPreElement> & { node?: HastNode }> = ({ node, children }) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(getNodeText(node).replace(/\n$/, ''));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (e) {
+      console.error("Copy to clipboard failed", e);
+    }
+  };
+
+  return (
+    <div className="relative group my-3">
+      <button
+        onClick={handleCopy}
+        className="absolute top-2 right-2 flex items-center gap-1 px-2 py-1 text-xs rounded-md bg-white/80 border border-slate-200 text-slate-500 hover:text-indigo-600 opacity-0 group-hover:opacity-100 transition-opacity"
+        title="Copy code"
+      >
+        {copied ? <Check className="w-3.5 h-3.5" /> : <Copy className="w-3.5 h-3.5" />}
+        {copied ? 'Copied' : 'Copy'}
+      </button>
+      <pre className="overflow-x-auto rounded-lg bg-slate-50 border border-slate-200 p-3 text-xs leading-relaxed">
+        {children}
+      </pre>
+    </div>
+  );
+};
+
+const MarkdownLink: React.FC<React.AnchorHTMLAttributes<HTMLAnchorElement> & ExtraProps> = ({ node, children, ...props }) => (
+  <a {...props} target="_blank" rel="noopener noreferrer" className="text-indigo-600 underline hover:text-indigo-700">
+    {children}
+  </a>
+);
+
+const BASE_COMPONENTS: Components = {
+  pre: ({ node, children }) => <CodeBlock node={node as HastNode}>{children}</CodeBlock>,
+  code: ({ node, className, children, ...props }) => {
+    // Fenced blocks get a language-* / hljs class; everything else is inline code
+    const isBlock = /\b(language-|hljs)/.test(className || '');
+    return isBlock
+      ? <code className={`${className} font-mono`} {...props}>{children}</code>
+      : <code className="px-1 py-0.5 rounded bg-slate-200/70 font-mono text-[0.85em]" {...props}>{children}</code>;
+  },
+  a: (props) => <MarkdownLink {...props} />,
+  p: ({ node, ...props }) => <p className="my-2 first:mt-0 last:mb-0" {...props} />,
+  ul: ({ node, ...props }) => <ul className="my-2 pl-5 list-disc space-y-1" {...props} />,
+  ol: ({ node, ...props }) => <ol className="my-2 pl-5 list-decimal space-y-1" {...props} />,
+  h1: ({ node, ...props }) => <h1 className="mt-4 mb-2 text-lg font-bold" {...props} />,
+  h2: ({ node, ...props }) => <h2 className="mt-4 mb-2 text-base font-bold" {...props} />,
+  h3: ({ node, ...props }) => <h3 className="mt-3 mb-1 font-semibold" {...props} />,
+  blockquote: ({ node, ...props }) => <blockquote className="my-2 pl-3 border-l-4 border-slate-300 text-slate-600" {...props} />,
+  table: ({ node, ...props }) => (
+    <div className="my-3 overflow-x-auto">
+      <table className="min-w-full text-xs border border-slate-200 rounded-lg" {...props} />
+    </div>
+  ),
+  th: ({ node, ...props }) => <th className="px-3 py-2 bg-slate-200/60 text-left font-semibold border-b border-slate-200" {...props} />,
+  td: ({ node, ...props }) => <td className="px-3 py-2 border-b border-slate-200 align-top" {...props} />,
+  hr: ({ node, ...props }) => <hr className="my-4 border-slate-200" {...props} />
+};
+
+/**
+ * Renders an assistant answer as GitHub-flavored Markdown, with numbered
+ * citation markers linked to the message's sources.
+ */
+export const MarkdownMessage: React.FC<MarkdownMessageProps> = ({ content, citationIds = [], onCitationClick }) => {
+  const components = useMemo<Components>(() => ({
+    ...BASE_COMPONENTS,
+    a: (props) => {
+      const href = props.href || '';
+      if (!href.startsWith(CITATION_HREF_PREFIX)) return <MarkdownLink {...props} />;
+      const id = Number(href.slice(CITATION_HREF_PREFIX.length));
+      return (
+        <button
+          type="button"
+          onClick={() => onCitationClick?.(id)}
+          className="inline-flex items-center justify-center min-w-[1.25rem] h-5 px-1 mx-0.5 align-super text-[10px] font-semibold rounded-full bg-indigo-100 text-indigo-700 hover:bg-indigo-200 transition-colors"
+          title={`Show source ${id}`}
+        >
+          {id}
+        </button>
+      );
+    }
+  }), [onCitationClick]);
+
+  return (
+    <div className="break-words">
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm]}
+        rehypePlugins={REHYPE_PLUGINS}
+        components={components}
+      >
+        {linkCitationMarkers(content, citationIds)}
+      </ReactMarkdown>
+    </div>
+  );
+};
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { Copy, Check, Pencil, RefreshCw, RotateCcw, ChevronLeft, ChevronRight } from 'lucide-react';
+import { ChatMessage, MessageRole } from '../types';
+import { getVersionInfo } from '../utils/branches';
+
+interface MessageActionsProps {
+  message: ChatMessage;
+  disabled: boolean; // While a reply is being generated
+  onEdit?: () => void;
+  onRegenerate?: () => void;
+  onRetry?: () => void;
+  onSwitchVersion?: (version: number) => void;
+}
+
+const COPIED_FEEDBACK_MS = 1500;
+
+/**
+ * Hover toolbar under a chat message. The version switcher stays visible so branches are discoverable.
+ */
+export const MessageActions: React.FC<MessageActionsProps> = ({
+  message,
+  disabled,
+  onEdit,
+  onRegenerate,
+  onRetry,
+  onSwitchVersion
+}) => {
+  const [copied, setCopied] = useState(false);
+  const { index, count } = getVersionInfo(message);
+  const isUser = message.role === MessageRole.USER;
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(message.content);
+      setCopied(true);
+      setTimeout(() => setCopied(false), COPIED_FEEDBACK_MS);
+    } catch (e) {
+      console.error("Error copying message", e);
+    }
+  };
+
+  const buttonClass = "p-1 text-slate-400 hover:text-indigo-600 rounded-md transition-colors disabled:opacity-40 disabled:hover:text-slate-400";
+
+  return (
+    <div className={`flex items-center gap-1 ${isUser ? 'flex-row-reverse' : ''}`}>
+      {count > 1 && onSwitchVersion && (
+        <div className="flex items-center text-xs text-slate-500">
+          <button
+            onClick={() => onSwitchVersion(index - 1)}
+            disabled={disabled || index === 0}
+            className={buttonClass}
+            title="Previous version"
+          >
+            <ChevronLeft className="w-3.5 h-3.5" />
+          </button>
+          <span className="tabular-nums">{index + 1}/{count}</span>
+          <button
+            onClick={() => onSwitchVersion(index + 1)}
+            disabled={disabled || index === count - 1}
+            className={buttonClass}
+            title="Next version"
+          >
+            <ChevronRight className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      )}
+
+      <div className={`flex items-center gap-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity ${isUser ? 'flex-row-reverse' : ''}`}>
+        {message.content && (
+          <button onClick={handleCopy} className={buttonClass} title="Copy">
+            {copied ? <Check className="w-3.5 h-3.5 text-emerald-600" /> : <Copy className="w-3.5 h-3.5" />}
+          </button>
+        )}
+        {onEdit && (
+          <button onClick={onEdit} disabled={disabled} className={buttonClass} title="Edit and resend">
+            <Pencil className="w-3.5 h-3.5" />
+          </button>
+        )}
+        {onRegenerate && (
+          <button onClick={onRegenerate} disabled={disabled} className={buttonClass} title="Regenerate reply">
+            <RefreshCw className="w-3.5 h-3.5" />
+          </button>
+        )}
+        {onRetry && (
+          <button onClick={onRetry} disabled={disabled} className={buttonClass} title="Retry">
+            <RotateCcw className="w-3.5 h-3.5" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+import React, { useEffect, useState } from 'react';
+import { CloudOff, ChevronDown, ChevronUp, Loader2, MessageSquare, Database, RotateCcw, X, AlertCircle } from 'lucide-react';
+import { OutboxEntry } from '../types';
+
+interface OutboxPanelProps {
+  entries: OutboxEntry[];
+  isOnline: boolean;
+  onRetry: (id: string) => void;
+  onCancel: (id: string) => void;
+}
+
+const MAX_LABEL_LENGTH = 60;
+
+const getEntryLabel = (entry: OutboxEntry): string => {
+  if (entry.kind === 'chat') {
+    const text = entry.text.trim() || entry.files[0]?.name || 'Message';
+    return text.length > MAX_LABEL_LENGTH ? `${text.slice(0, MAX_LABEL_LENGTH).trimEnd()}…` : text;
+  }
+  return entry.files.length > 0 ? `${entry.files.length} file(s) for ingestion` : 'Text context for ingestion';
+};
+
+/**
+ * Floating list of requests waiting for N8N to become reachable.
+ */
+export const OutboxPanel: React.FC<OutboxPanelProps> = ({ entries, isOnline, onRetry, onCancel }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  // Tick so the retry countdown stays current while the list is open
+  useEffect(() => {
+    if (!isOpen) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isOpen]);
+
+  if (entries.length === 0) return null;
+
+  const getStatusText = (entry: OutboxEntry): string => {
+    if (entry.status === 'sending') return 'Sending...';
+    if (entry.status === 'failed') return entry.lastError || 'Failed';
+    if (!isOnline) return 'Waiting for connection';
+    const seconds = Math.max(0, Math.ceil((entry.nextAttemptAt - now) / 1000));
+    return seconds > 0 ? `Retrying in ${seconds}s (attempt ${entry.attempts + 1})` : 'Retrying...';
+  };
+
+  return (
+    <div className="fixed bottom-4 right-4 z-40 w-80 max-w-[calc(100vw-2rem)] bg-white border border-slate-200 rounded-xl shadow-lg">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="w-full flex items-center gap-2 px-4 py-3 text-sm font-semibold text-slate-700"
+      >
+        <CloudOff className="w-4 h-4 text-amber-500" />
+        Outbox ({entries.length})
+        <span className="ml-auto text-slate-400">
+          {isOpen ? <ChevronDown className="w-4 h-4" /> : <ChevronUp className="w-4 h-4" />}
+        </span>
+      </button>
+
+      {isOpen && (
+        <ul className="max-h-72 overflow-y-auto border-t border-slate-100 divide-y divide-slate-100">
+          {entries.map(entry => (
+            <li key={entry.id} className="flex items-start gap-2 px-4 py-3">
+              <span className="mt-0.5 text-slate-400 flex-shrink-0">
+                {entry.kind === 'chat' ? <MessageSquare className="w-4 h-4" /> : <Database className="w-4 h-4" />}
+              </span>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-slate-800 truncate" title={getEntryLabel(entry)}>{getEntryLabel(entry)}</p>
+                <p className={`flex items-center gap-1 text-xs mt-0.5 ${entry.status === 'failed' ? 'text-red-600' : 'text-slate-500'}`}>
+                  {entry.status === 'sending' && <Loader2 className="w-3 h-3 animate-spin" />}
+                  {entry.status === 'failed' && <AlertCircle className="w-3 h-3 flex-shrink-0" />}
+                  <span className="truncate" title={entry.lastError}>{getStatusText(entry)}</span>
+                </p>
+              </div>
+              {entry.status !== 'sending' && (
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <button
+                    onClick={() => onRetry(entry.id)}
+                    className="p-1 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-md transition-colors"
+                    title="Retry now"
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => onCancel(entry.id)}
+                    className="p-1 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-md transition-colors"
+                    title="Cancel"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { ArrowLeftRight, FlaskConical } from 'lucide-react';
+import { RequestFieldNames, ResponseMapping } from '../types';
+import { mapChatResponse, MappedChatResponse } from '../services/responseMapper';
+
+interface ResponseMappingEditorProps {
+  requestFields: RequestFieldNames;
+  responseMapping: ResponseMapping;
+  onChangeRequestFields: (fields: RequestFieldNames) => void;
+  onChangeResponseMapping: (mapping: ResponseMapping) => void;
+}
+
+const REQUEST_FIELD_LABELS: Record<keyof RequestFieldNames, string> = {
+  message: 'Message',
+  chatInput: 'Chat input',
+  sessionId: 'Session id',
+  history: 'History'
+};
+
+const RESPONSE_PATH_LABELS: Record<keyof ResponseMapping, { label: string; placeholder: string }> = {
+  answerPath: { label: 'Answer text', placeholder: 'auto (output, text, message...)' },
+  sourcesPath: { label: 'Sources', placeholder: 'auto (sources)' },
+  sessionIdPath: { label: 'Session id', placeholder: 'auto (sessionId)' },
+  suggestionsPath: { label: 'Follow-up suggestions', placeholder: 'auto (suggestions)' }
+};
+
+const INPUT_CLASS = 'w-full px-3 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-sm font-mono';
+
+export const ResponseMappingEditor: React.FC<ResponseMappingEditorProps> = ({
+  requestFields,
+  responseMapping,
+  onChangeRequestFields,
+  onChangeResponseMapping
+}) => {
+  const [sample, setSample] = useState('');
+  const [preview, setPreview] = useState<MappedChatResponse | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+
+  const runPreview = () => {
+    try {
+      setPreview(mapChatResponse(JSON.parse(sample), responseMapping));
+      setPreviewError(null);
+    } catch (e) {
+      setPreview(null);
+      setPreviewError("Sample is not valid JSON.");
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <label className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+        <ArrowLeftRight className="w-4 h-4 text-indigo-600" /> Request &amp; Response Mapping
+      </label>
+
+      <div>
+        <p className="text-xs text-slate-500 mb-2">
+          Form field names sent to the chat webhook. Leave a name empty to omit that field.
+        </p>
+        <div className="grid grid-cols-2 gap-2">
+          {(Object.keys(REQUEST_FIELD_LABELS) as (keyof RequestFieldNames)[]).map(key => (
+            <div key={key}>
+              <span className="block text-xs text-slate-500 mb-1">{REQUEST_FIELD_LABELS[key]}</span>
+              <input
+                type="text"
+                value={requestFields[key]}
+                onChange={(e) => onChangeRequestFields({ ...requestFields, [key]: e.target.value })}
+                className={INPUT_CLASS}
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <p className="text-xs text-slate-500 mb-2">
+          Paths into the JSON reply, e.g. <code>0.output</code>, <code>data.answer</code> or <code>choices[0].message.content</code>.
+        </p>
+        <div className="grid grid-cols-2 gap-2">
+          {(Object.keys(RESPONSE_PATH_LABELS) as (keyof ResponseMapping)[]).map(key => (
+            <div key={key}>
+              <span className="block text-xs text-slate-500 mb-1">{RESPONSE_PATH_LABELS[key].label}</span>
+              <input
+                type="text"
+                value={responseMapping[key]}
+                onChange={(e) => onChangeResponseMapping({ ...responseMapping, [key]: e.target.value })}
+                placeholder={RESPONSE_PATH_LABELS[key].placeholder}
+                className={INPUT_CLASS}
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <textarea
+          value={sample}
+          onChange={(e) => setSample(e.target.value)}
+          placeholder='Paste a sample response, e.g. [{ "output": "Hello!", "sources": [] }]'
+          className={`${INPUT_CLASS} h-24 resize-none text-xs`}
+        />
+        <button
+          onClick={runPreview}
+          disabled={!sample.trim()}
+          className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-indigo-600 bg-indigo-50 rounded-lg hover:bg-indigo-100 transition-colors disabled:opacity-50"
+        >
+          <FlaskConical className="w-3.5 h-3.5" /> Test against sample response
+        </button>
+
+        {previewError && <p className="text-xs text-red-600">{previewError}</p>}
+        {preview && (
+          <dl className="p-3 bg-slate-50 border border-slate-200 rounded-lg text-xs space-y-1.5">
+            <div className="flex gap-2">
+              <dt className="w-24 flex-shrink-0 text-slate-500">Answer</dt>
+              <dd className="text-slate-800 whitespace-pre-wrap break-words line-clamp-4">{preview.text}</dd>
+            </div>
+            <div className="flex gap-2">
+              <dt className="w-24 flex-shrink-0 text-slate-500">Sources</dt>
+              <dd className="text-slate-800">
+                {preview.sources.length > 0 ? preview.sources.map(s => s.documentName).join(', ') : '—'}
+              </dd>
+            </div>
+            <div className="flex gap-2">
+              <dt className="w-24 flex-shrink-0 text-slate-500">Session id</dt>
+              <dd className="text-slate-800 font-mono">{preview.sessionId ?? '—'}</dd>
+            </div>
+            <div className="flex gap-2">
+              <dt className="w-24 flex-shrink-0 text-slate-500">Suggestions</dt>
+              <dd className="text-slate-800">{preview.suggestions.length > 0 ? preview.suggestions.join(' | ') : '—'}</dd>
+            </div>
+          </dl>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,193 @@
+import React, { useRef, useState } from 'react';
+import { Plus, MessageSquare, Pencil, Trash2, Check, X, Download, FileUp } from 'lucide-react';
+import { ChatSession } from '../types';
+import { importTranscript, TranscriptFormat } from '../services/transcripts';
+
+interface SessionSidebarProps {
+  sessions: ChatSession[];
+  activeSessionId: string | null;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+  onExport: (id: string, format: TranscriptFormat) => void;
+  onImport: (session: ChatSession) => void;
+}
+
+const EXPORT_FORMATS: { format: TranscriptFormat; label: string }[] = [
+  { format: 'markdown', label: 'Markdown' },
+  { format: 'json', label: 'JSON (re-importable)' },
+  { format: 'html', label: 'HTML (print to PDF)' }
+];
+
+export const SessionSidebar: React.FC<SessionSidebarProps> = ({
+  sessions,
+  activeSessionId,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+  onExport,
+  onImport
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+  const [exportMenuId, setExportMenuId] = useState<string | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const startRename = (session: ChatSession) => {
+    setEditingId(session.id);
+    setDraftTitle(session.title);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftTitle.trim()) {
+      onRename(editingId, draftTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = (session: ChatSession) => {
+    if (window.confirm(`Delete "${session.title}"? This cannot be undone.`)) {
+      onDelete(session.id);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (importInputRef.current) {
+      importInputRef.current.value = '';
+    }
+    if (!file) return;
+
+    try {
+      onImport(importTranscript(await file.text()));
+      setImportError(null);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : "Import failed");
+    }
+  };
+
+  const formatDate = (timestamp: number) => {
+    const date = new Date(timestamp);
+    return date.toDateString() === new Date().toDateString()
+      ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+      : date.toLocaleDateString();
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-white rounded-2xl border border-slate-200 shadow-sm overflow-hidden">
+      <div className="p-3 border-b border-slate-100">
+        <div className="flex gap-2">
+          <button
+            onClick={onCreate}
+            className="flex-1 flex items-center justify-center gap-2 px-4 py-2.5 bg-indigo-600 text-white rounded-xl text-sm font-medium hover:bg-indigo-700 transition-colors shadow-sm"
+          >
+            <Plus className="w-4 h-4" />
+            New chat
+          </button>
+          <button
+            onClick={() => importInputRef.current?.click()}
+            className="px-3 py-2.5 text-slate-500 border border-slate-200 rounded-xl hover:text-indigo-600 hover:bg-indigo-50 transition-colors"
+            title="Import a JSON transcript"
+          >
+            <FileUp className="w-4 h-4" />
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleImport}
+            className="hidden"
+          />
+        </div>
+        {importError && (
+          <p className="mt-2 text-xs text-red-600">{importError}</p>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {sessions.map((session) => (
+          <div
+            key={session.id}
+            onClick={() => editingId !== session.id && onSelect(session.id)}
+            className={`group relative flex items-center gap-2 px-3 py-2.5 rounded-xl cursor-pointer transition-all ${
+              session.id === activeSessionId
+                ? 'bg-indigo-50 text-indigo-700'
+                : 'text-slate-600 hover:bg-slate-50'
+            }`}
+          >
+            <MessageSquare className="w-4 h-4 flex-shrink-0" />
+
+            {editingId === session.id ? (
+              <div className="flex-1 flex items-center gap-1 min-w-0">
+                <input
+                  autoFocus
+                  value={draftTitle}
+                  onChange={(e) => setDraftTitle(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  onClick={(e) => e.stopPropagation()}
+                  className="flex-1 min-w-0 px-2 py-1 text-sm border border-slate-200 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+                <button onClick={(e) => { e.stopPropagation(); commitRename(); }} className="p-1 text-slate-400 hover:text-emerald-600">
+                  <Check className="w-3.5 h-3.5" />
+                </button>
+                <button onClick={(e) => { e.stopPropagation(); setEditingId(null); }} className="p-1 text-slate-400 hover:text-slate-600">
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            ) : (
+              <>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate" title={session.title}>{session.title}</p>
+                  <p className="text-xs text-slate-400">{formatDate(session.updatedAt)}</p>
+                </div>
+                <div className={`flex items-center transition-opacity ${exportMenuId === session.id ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}>
+                  <button
+                    onClick={(e) => { e.stopPropagation(); setExportMenuId(exportMenuId === session.id ? null : session.id); }}
+                    disabled={session.messages.length === 0}
+                    className="p-1 text-slate-400 hover:text-indigo-600 rounded-md disabled:opacity-40 disabled:hover:text-slate-400"
+                    title="Export"
+                  >
+                    <Download className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={(e) => { e.stopPropagation(); startRename(session); }}
+                    className="p-1 text-slate-400 hover:text-indigo-600 rounded-md"
+                    title="Rename"
+                  >
+                    <Pencil className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={(e) => { e.stopPropagation(); handleDelete(session); }}
+                    className="p-1 text-slate-400 hover:text-red-500 rounded-md"
+                    title="Delete"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+                {exportMenuId === session.id && (
+                  <div className="absolute right-2 top-full z-10 mt-1 w-48 py-1 bg-white border border-slate-200 rounded-lg shadow-lg">
+                    {EXPORT_FORMATS.map(({ format, label }) => (
+                      <button
+                        key={format}
+                        onClick={(e) => { e.stopPropagation(); onExport(session.id, format); setExportMenuId(null); }}
+                        className="w-full px-3 py-1.5 text-left text-xs text-slate-600 hover:bg-indigo-50 hover:text-indigo-700"
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
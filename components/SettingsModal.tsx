@@ -1,38 +1,133 @@
-import React, { useState, useEffect } from 'react';
-import { Settings, X, Save, Key } from 'lucide-react';
-import { WebhookConfig } from '../types';
-import { DEFAULT_CONFIG, LOCAL_STORAGE_CONFIG_KEY } from '../constants';
+import React, { useState, useEffect, useRef } from 'react';
+import { Settings, X, Save, Key, Plus, Copy, Trash2, Download, Upload, CheckCircle2, ShieldCheck, ScanText, Timer, History, Mic, ImageDown, Gauge, Table2 } from 'lucide-react';
+import { HistoryOptions, MediaOptions, PreprocessOptions, ProfileState, RequestTimeouts, UploadLimits, WebhookAuth, WebhookAuthType, VoiceOptions, WebhookProfile, WebhookSigning } from '../types';
+import { createProfile, exportProfiles, importProfiles } from '../services/profileStore';
+import { MAX_RETAINED_BATCH_MB, MAX_RETAINED_BATCHES, MIN_CHUNK_SIZE } from '../constants';
+import { clampChunkOverlap, clampChunkSize } from '../utils/chunking';
+import { ResponseMappingEditor } from './ResponseMappingEditor';
+import { ConnectionDiagnostics } from './ConnectionDiagnostics';
 
 interface SettingsModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSave: (config: WebhookConfig) => void;
+  profileState: ProfileState;
+  onSave: (state: ProfileState) => void;
 }
 
-export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, onSave }) => {
-  const [config, setConfig] = useState<WebhookConfig>(DEFAULT_CONFIG);
+export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, profileState, onSave }) => {
+  // Edits are made on a draft and only applied on save
+  const [draft, setDraft] = useState<ProfileState>(profileState);
+  const [selectedId, setSelectedId] = useState(profileState.activeProfileId);
+  const [importError, setImportError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
-    const stored = localStorage.getItem(LOCAL_STORAGE_CONFIG_KEY);
-    if (stored) {
-      try {
-        const parsed = JSON.parse(stored);
-        // Ensure we display the default config in the inputs if the stored values are empty
-        setConfig({
-          ingestionUrl: parsed.ingestionUrl || DEFAULT_CONFIG.ingestionUrl,
-          chatUrl: parsed.chatUrl || DEFAULT_CONFIG.chatUrl
-        });
-      } catch (e) {
-        setConfig(DEFAULT_CONFIG);
-      }
-    } else {
-        setConfig(DEFAULT_CONFIG);
+    if (isOpen) {
+      setDraft(profileState);
+      setSelectedId(profileState.activeProfileId);
+      setImportError(null);
     }
-  }, [isOpen]);
+  }, [isOpen, profileState]);
+
+  const selected = draft.profiles.find(p => p.id === selectedId) ?? draft.profiles[0];
+
+  const updateSelected = (changes: Partial<WebhookProfile>) => {
+    setDraft(prev => ({
+      ...prev,
+      profiles: prev.profiles.map(p => p.id === selected.id ? { ...p, ...changes } : p)
+    }));
+  };
+
+  const updateAuth = (changes: Partial<WebhookAuth>) => {
+    updateSelected({ auth: { ...selected.auth, ...changes } });
+  };
+
+  const updateSigning = (changes: Partial<WebhookSigning>) => {
+    updateSelected({ signing: { ...selected.signing, ...changes } });
+  };
+
+  const updatePreprocessing = (changes: Partial<PreprocessOptions>) => {
+    updateSelected({ preprocessing: { ...selected.preprocessing, ...changes } });
+  };
+
+  const updateTimeouts = (changes: Partial<RequestTimeouts>) => {
+    updateSelected({ timeouts: { ...selected.timeouts, ...changes } });
+  };
+
+  const updateHistory = (changes: Partial<HistoryOptions>) => {
+    updateSelected({ history: { ...selected.history, ...changes } });
+  };
+
+  const updateVoice = (changes: Partial<VoiceOptions>) => {
+    updateSelected({ voice: { ...selected.voice, ...changes } });
+  };
+
+  const updateMedia = (changes: Partial<MediaOptions>) => {
+    updateSelected({ media: { ...selected.media, ...changes } });
+  };
+
+  const updateUploadLimits = (changes: Partial<UploadLimits>) => {
+    updateSelected({ uploadLimits: { ...selected.uploadLimits, ...changes } });
+  };
+
+  const uploadLimitFields: { key: keyof UploadLimits; label: string }[] = [
+    { key: 'maxDocumentMb', label: 'Documents (MB)' },
+    { key: 'maxImageMb', label: 'Images (MB)' },
+    { key: 'maxAudioMb', label: 'Audio (MB)' },
+    { key: 'maxVideoMb', label: 'Video (MB)' },
+    { key: 'maxBatchMb', label: 'Whole batch (MB)' },
+    { key: 'maxBatchFiles', label: 'Files per batch' }
+  ];
+
+  const addProfile = (base?: WebhookProfile) => {
+    const profile = base
+      ? createProfile(`${base.name} (copy)`, base)
+      : createProfile(`Profile ${draft.profiles.length + 1}`, { ingestionUrl: '', chatUrl: '' });
+    setDraft(prev => ({ ...prev, profiles: [...prev.profiles, profile] }));
+    setSelectedId(profile.id);
+  };
+
+  const removeSelected = () => {
+    if (draft.profiles.length <= 1) return;
+    if (!window.confirm(`Delete profile "${selected.name}"?`)) return;
+    const remaining = draft.profiles.filter(p => p.id !== selected.id);
+    setDraft(prev => ({
+      profiles: remaining,
+      activeProfileId: prev.activeProfileId === selected.id ? remaining[0].id : prev.activeProfileId
+    }));
+    setSelectedId(remaining[0].id);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportProfiles(draft.profiles)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'n8n-chatbot-profiles.json';
+    link.click();
+    // Revoking right away can cancel the download in some browsers
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (importInputRef.current) {
+      importInputRef.current.value = '';
+    }
+    if (!file) return;
+
+    try {
+      const imported = importProfiles(await file.text(), draft.profiles);
+      setDraft(prev => ({ ...prev, profiles: [...prev.profiles, ...imported] }));
+      setSelectedId(imported[0].id);
+      setImportError(null);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : "Import failed");
+    }
+  };
 
   const handleSave = () => {
-    localStorage.setItem(LOCAL_STORAGE_CONFIG_KEY, JSON.stringify(config));
-    onSave(config);
+    onSave(draft);
     onClose();
   };
 
@@ -40,7 +135,7 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, o
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
-      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg overflow-hidden animate-in fade-in zoom-in duration-200">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-full flex flex-col overflow-hidden animate-in fade-in zoom-in duration-200">
         <div className="flex items-center justify-between p-6 border-b border-slate-100">
           <div className="flex items-center gap-2 text-indigo-600">
             <Settings className="w-5 h-5" />
@@ -51,48 +146,672 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, o
           </button>
         </div>
 
-        <div className="p-6 space-y-6">
-          <div>
-            <label className="block text-sm font-semibold text-slate-700 mb-2">
-              Ingestion Webhook URL
-            </label>
-            <p className="text-xs text-slate-500 mb-2">
-              The N8N workflow URL that handles file uploads and processing (e.g., Vector Store creation).
-            </p>
-            <div className="relative">
-              <Key className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+        <div className="flex-1 flex flex-col md:flex-row overflow-hidden">
+          {/* Profile List */}
+          <div className="md:w-56 flex-shrink-0 border-b md:border-b-0 md:border-r border-slate-100 p-4 space-y-3 bg-slate-50/50 overflow-y-auto">
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-semibold uppercase tracking-wide text-slate-400">Profiles</span>
+              <button
+                onClick={() => addProfile()}
+                className="p-1 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-md transition-colors"
+                title="Add profile"
+              >
+                <Plus className="w-4 h-4" />
+              </button>
+            </div>
+
+            <div className="space-y-1">
+              {draft.profiles.map(profile => (
+                <button
+                  key={profile.id}
+                  onClick={() => setSelectedId(profile.id)}
+                  className={`w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-left transition-all ${
+                    profile.id === selected.id
+                      ? 'bg-indigo-600 text-white shadow-sm'
+                      : 'text-slate-600 hover:bg-white'
+                  }`}
+                >
+                  <span className="flex-1 truncate font-medium">{profile.name}</span>
+                  {profile.id === draft.activeProfileId && (
+                    <CheckCircle2 className={`w-4 h-4 flex-shrink-0 ${profile.id === selected.id ? 'text-white' : 'text-emerald-500'}`} />
+                  )}
+                </button>
+              ))}
+            </div>
+
+            <div className="flex gap-2 pt-2 border-t border-slate-200">
+              <button
+                onClick={() => importInputRef.current?.click()}
+                className="flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 text-xs font-medium text-slate-600 bg-white border border-slate-200 rounded-lg hover:border-indigo-300 hover:text-indigo-600 transition-colors"
+              >
+                <Upload className="w-3.5 h-3.5" /> Import
+              </button>
+              <button
+                onClick={handleExport}
+                className="flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 text-xs font-medium text-slate-600 bg-white border border-slate-200 rounded-lg hover:border-indigo-300 hover:text-indigo-600 transition-colors"
+              >
+                <Download className="w-3.5 h-3.5" /> Export
+              </button>
               <input
-                type="url"
-                value={config.ingestionUrl}
-                onChange={(e) => setConfig({ ...config, ingestionUrl: e.target.value })}
-                placeholder="https://your-n8n-instance.com/webhook/..."
-                className="w-full pl-10 pr-4 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-sm"
+                ref={importInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={handleImport}
               />
             </div>
+            {importError && <p className="text-xs text-red-600">{importError}</p>}
           </div>
 
-          <div>
-            <label className="block text-sm font-semibold text-slate-700 mb-2">
-              Chat Webhook URL
-            </label>
-            <p className="text-xs text-slate-500 mb-2">
-              The N8N workflow URL that receives questions and returns answers.
-            </p>
-            <div className="relative">
-              <Key className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
-              <input
-                type="url"
-                value={config.chatUrl}
-                onChange={(e) => setConfig({ ...config, chatUrl: e.target.value })}
-                placeholder="https://your-n8n-instance.com/webhook/..."
-                className="w-full pl-10 pr-4 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-sm"
+          {/* Profile Editor */}
+          <div className="flex-1 p-6 space-y-6 overflow-y-auto">
+            <div className="flex items-end gap-3">
+              <div className="flex-1">
+                <label className="block text-sm font-semibold text-slate-700 mb-2">
+                  Profile Name
+                </label>
+                <input
+                  type="text"
+                  value={selected.name}
+                  onChange={(e) => updateSelected({ name: e.target.value })}
+                  placeholder="e.g. Staging"
+                  className="w-full px-4 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-sm"
+                />
+              </div>
+              <button
+                onClick={() => addProfile(selected)}
+                className="p-2.5 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
+                title="Duplicate profile"
+              >
+                <Copy className="w-4 h-4" />
+              </button>
+              <button
+                onClick={removeSelected}
+                disabled={draft.profiles.length <= 1}
+                className="p-2.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-slate-400"
+                title="Delete profile"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+
+            <div>
+              <label className="block text-sm font-semibold text-slate-700 mb-2">
+                Ingestion Webhook URL
+              </label>
+              <p className="text-xs text-slate-500 mb-2">
+                The N8N workflow URL that handles file uploads and processing (e.g., Vector Store creation).
+              </p>
+              <div className="relative">
+                <Key className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+                <input
+                  type="url"
+                  value={selected.ingestionUrl}
+                  onChange={(e) => updateSelected({ ingestionUrl: e.target.value })}
+                  placeholder="https://your-n8n-instance.com/webhook/..."
+                  className="w-full pl-10 pr-4 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-sm"
+                />
+              </div>
+              <ConnectionDiagnostics config={selected} target="ingestion" />
+            </div>
+
+            <div>
+              <label className="block text-sm font-semibold text-slate-700 mb-2">
+                Chat Webhook URL
+              </label>
+              <p className="text-xs text-slate-500 mb-2">
+                The N8N workflow URL that receives questions and returns answers.
+              </p>
+              <div className="relative">
+                <Key className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+                <input
+                  type="url"
+                  value={selected.chatUrl}
+                  onChange={(e) => updateSelected({ chatUrl: e.target.value })}
+                  placeholder="https://your-n8n-instance.com/webhook/..."
+                  className="w-full pl-10 pr-4 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-sm"
+                />
+              </div>
+              <ConnectionDiagnostics config={selected} target="chat" />
+            </div>
+
+            <div>
+              <label className="block text-sm font-semibold text-slate-700 mb-2">
+                List Documents Webhook URL <span className="font-normal text-slate-400">(optional)</span>
+              </label>
+              <p className="text-xs text-slate-500 mb-2">
+                Returns the ingested documents shown in the Documents tab (see ListDocumentsResponse).
+              </p>
+              <div className="relative">
+                <Key className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+                <input
+                  type="url"
+                  value={selected.listDocumentsUrl}
+                  onChange={(e) => updateSelected({ listDocumentsUrl: e.target.value })}
+                  placeholder="https://your-n8n-instance.com/webhook/..."
+                  className="w-full pl-10 pr-4 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-sm"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-semibold text-slate-700 mb-2">
+                Delete Document Webhook URL <span className="font-normal text-slate-400">(optional)</span>
+              </label>
+              <p className="text-xs text-slate-500 mb-2">
+                Removes a document and its chunks from the vector store.
+              </p>
+              <div className="relative">
+                <Key className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+                <input
+                  type="url"
+                  value={selected.deleteDocumentUrl}
+                  onChange={(e) => updateSelected({ deleteDocumentUrl: e.target.value })}
+                  placeholder="https://your-n8n-instance.com/webhook/..."
+                  className="w-full pl-10 pr-4 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-sm"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-semibold text-slate-700 mb-2">
+                Feedback Webhook URL <span className="font-normal text-slate-400">(optional)</span>
+              </label>
+              <p className="text-xs text-slate-500 mb-2">
+                Receives thumbs up/down ratings on answers as JSON: <code>sessionId</code>, <code>messageId</code>, <code>question</code>, <code>answer</code>, <code>rating</code> and <code>comment</code>. A comment added later is sent again for the same <code>messageId</code>.
+              </p>
+              <div className="relative">
+                <Key className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+                <input
+                  type="url"
+                  value={selected.feedbackUrl}
+                  onChange={(e) => updateSelected({ feedbackUrl: e.target.value })}
+                  placeholder="https://your-n8n-instance.com/webhook/..."
+                  className="w-full pl-10 pr-4 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-sm"
+                />
+              </div>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="block text-sm font-semibold text-slate-700">
+                  Custom Headers
+                </label>
+                <button
+                  onClick={() => updateSelected({ headers: [...selected.headers, { name: '', value: '' }] })}
+                  className="flex items-center gap-1 text-xs font-medium text-indigo-600 hover:text-indigo-700"
+                >
+                  <Plus className="w-3.5 h-3.5" /> Add header
+                </button>
+              </div>
+              <p className="text-xs text-slate-500 mb-2">
+                Sent with every request to this profile's webhooks.
+              </p>
+              <div className="space-y-2">
+                {selected.headers.map((header, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <input
+                      type="text"
+                      value={header.name}
+                      onChange={(e) => updateSelected({
+                        headers: selected.headers.map((h, i) => i === index ? { ...h, name: e.target.value } : h)
+                      })}
+                      placeholder="Header-Name"
+                      className="w-2/5 px-3 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-sm font-mono"
+                    />
+                    <input
+                      type="text"
+                      value={header.value}
+                      onChange={(e) => updateSelected({
+                        headers: selected.headers.map((h, i) => i === index ? { ...h, value: e.target.value } : h)
+                      })}
+                      placeholder="value"
+                      className="flex-1 px-3 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-sm font-mono"
+                    />
+                    <button
+                      onClick={() => updateSelected({ headers: selected.headers.filter((_, i) => i !== index) })}
+                      className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-md transition-colors"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <label className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+                <ShieldCheck className="w-4 h-4 text-indigo-600" /> Authentication
+              </label>
+              <p className="text-xs text-slate-500">
+                Match the "Authentication" option of your N8N Webhook node.
+              </p>
+              <select
+                value={selected.auth.type}
+                onChange={(e) => updateAuth({ type: e.target.value as WebhookAuthType })}
+                className="w-full px-3 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-sm bg-white"
+              >
+                <option value="none">None</option>
+                <option value="header">Header Auth</option>
+                <option value="basic">Basic Auth</option>
+                <option value="jwt">JWT Auth</option>
+              </select>
+
+              {selected.auth.type === 'header' && (
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={selected.auth.headerName}
+                    onChange={(e) => updateAuth({ headerName: e.target.value })}
+                    placeholder="Header name"
+                    className="w-full px-3 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-sm font-mono"
+                  />
+                  <input
+                    type="password"
+                    value={selected.auth.headerValue}
+                    onChange={(e) => updateAuth({ headerValue: e.target.value })}
+                    placeholder="Header value"
+                    className="w-full px-3 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-sm font-mono"
+                  />
+                </div>
+              )}
+
+              {selected.auth.type === 'basic' && (
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={selected.auth.username}
+                    onChange={(e) => updateAuth({ username: e.target.value })}
+                    placeholder="Username"
+                    autoComplete="off"
+                    className="w-full px-3 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-sm"
+                  />
+                  <input
+                    type="password"
+                    value={selected.auth.password}
+                    onChange={(e) => updateAuth({ password: e.target.value })}
+                    placeholder="Password"
+                    autoComplete="new-password"
+                    className="w-full px-3 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-sm"
+                  />
+                </div>
+              )}
+
+              {selected.auth.type === 'jwt' && (
+                <div className="space-y-2">
+                  <input
+                    type="password"
+                    value={selected.auth.jwtSecret}
+                    onChange={(e) => updateAuth({ jwtSecret: e.target.value })}
+                    placeholder="Passphrase (signs a short-lived HS256 token per request)"
+                    className="w-full px-3 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-sm font-mono"
+                  />
+                  <input
+                    type="password"
+                    value={selected.auth.jwtToken}
+                    onChange={(e) => updateAuth({ jwtToken: e.target.value })}
+                    placeholder="...or a pre-issued token"
+                    disabled={!!selected.auth.jwtSecret}
+                    className="w-full px-3 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-sm font-mono disabled:bg-slate-50 disabled:text-slate-400"
+                  />
+                </div>
+              )}
+
+              <div className="pt-3 border-t border-slate-100 space-y-2">
+                <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={selected.signing.enabled}
+                    onChange={(e) => updateSigning({ enabled: e.target.checked })}
+                    className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  Sign requests with HMAC-SHA256
+                </label>
+                {selected.signing.enabled && (
+                  <>
+                    <p className="text-xs text-slate-500">
+                      The signature is <code>sha256=hex(HMAC(secret, timestamp + "." + raw body))</code>. Enable "Raw Body" on the Webhook node and reject stale timestamps in your workflow.
+                    </p>
+                    <input
+                      type="password"
+                      value={selected.signing.secret}
+                      onChange={(e) => updateSigning({ secret: e.target.value })}
+                      placeholder="Signing secret"
+                      className="w-full px-3 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-sm font-mono"
+                    />
+                    <div className="flex gap-2">
+                      <input
+                        type="text"
+                        value={selected.signing.signatureHeader}
+                        onChange={(e) => updateSigning({ signatureHeader: e.target.value })}
+                        placeholder="X-Signature"
+                        className="w-full px-3 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-sm font-mono"
+                      />
+                      <input
+                        type="text"
+                        value={selected.signing.timestampHeader}
+                        onChange={(e) => updateSigning({ timestampHeader: e.target.value })}
+                        placeholder="X-Signature-Timestamp"
+                        className="w-full px-3 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-sm font-mono"
+                      />
+                    </div>
+                  </>
+                )}
+              </div>
+            </div>
+
+            <div className="pt-6 border-t border-slate-100 space-y-3">
+              <label className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+                <ScanText className="w-4 h-4 text-indigo-600" /> Document Pre-processing
+              </label>
+              <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={selected.preprocessing.enabled}
+                  onChange={(e) => updatePreprocessing({ enabled: e.target.checked })}
+                  className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                Extract and chunk PDF, DOCX and TXT text in the browser
+              </label>
+              {selected.preprocessing.enabled && (
+                <>
+                  <p className="text-xs text-slate-500">
+                    Chunks are sent as JSON in the <code>document_chunks</code> field, each with its page or section. Scanned documents without a text layer are always sent as files.
+                  </p>
+                  <select
+                    value={selected.preprocessing.mode}
+                    onChange={(e) => updatePreprocessing({ mode: e.target.value as PreprocessOptions['mode'] })}
+                    className="w-full px-3 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-sm bg-white"
+                  >
+                    <option value="alongside">Send chunks alongside the original file</option>
+                    <option value="instead">Send chunks instead of the original file</option>
+                  </select>
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <span className="block text-xs text-slate-500 mb-1">Chunk size (characters)</span>
+                      <input
+                        type="number"
+                        min={MIN_CHUNK_SIZE}
+                        value={selected.preprocessing.chunkSize}
+                        onChange={(e) => {
+                          const chunkSize = clampChunkSize(Number(e.target.value));
+                          updatePreprocessing({ chunkSize, chunkOverlap: clampChunkOverlap(selected.preprocessing.chunkOverlap, chunkSize) });
+                        }}
+                        className="w-full px-3 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-sm"
+                      />
+                    </div>
+                    <div>
+                      <span className="block text-xs text-slate-500 mb-1">Overlap (characters)</span>
+                      <input
+                        type="number"
+                        min={0}
+                        max={clampChunkOverlap(Infinity, selected.preprocessing.chunkSize)}
+                        value={selected.preprocessing.chunkOverlap}
+                        onChange={(e) => updatePreprocessing({ chunkOverlap: clampChunkOverlap(Number(e.target.value), selected.preprocessing.chunkSize) })}
+                        className="w-full px-3 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-sm"
+                      />
+                    </div>
+                  </div>
+                </>
+              )}
+            </div>
+
+            <div className="pt-6 border-t border-slate-100 space-y-3">
+              <label className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+                <Timer className="w-4 h-4 text-indigo-600" /> Timeouts
+              </label>
+              <p className="text-xs text-slate-500">
+                Give up on a request after this many seconds without an answer. Use 0 to wait indefinitely.
+              </p>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <span className="block text-xs text-slate-500 mb-1">Chat &amp; documents (s)</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={selected.timeouts.requestSeconds}
+                    onChange={(e) => updateTimeouts({ requestSeconds: Math.max(0, Number(e.target.value)) })}
+                    className="w-full px-3 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-sm"
+                  />
+                </div>
+                <div>
+                  <span className="block text-xs text-slate-500 mb-1">Each upload request (s)</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={selected.timeouts.uploadSeconds}
+                    onChange={(e) => updateTimeouts({ uploadSeconds: Math.max(0, Number(e.target.value)) })}
+                    className="w-full px-3 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-sm"
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div className="pt-6 border-t border-slate-100 space-y-3">
+              <label className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+                <History className="w-4 h-4 text-indigo-600" /> Conversation History
+              </label>
+              <p className="text-xs text-slate-500">
+                Earlier messages sent in the <code>history</code> field with each chat message.
+              </p>
+              <select
+                value={selected.history.strategy}
+                onChange={(e) => updateHistory({ strategy: e.target.value as HistoryOptions['strategy'] })}
+                className="w-full px-3 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-sm bg-white"
+              >
+                <option value="turns">Last N turns</option>
+                <option value="tokens">As many recent turns as fit a token budget</option>
+                <option value="all">Entire conversation</option>
+                <option value="none">None (the workflow keeps its own memory by session id)</option>
+              </select>
+              {selected.history.strategy === 'turns' && (
+                <div>
+                  <span className="block text-xs text-slate-500 mb-1">Turns (a question with its replies)</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={selected.history.maxTurns}
+                    onChange={(e) => updateHistory({ maxTurns: Math.max(0, Number(e.target.value)) })}
+                    className="w-full px-3 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-sm"
+                  />
+                </div>
+              )}
+              {selected.history.strategy === 'tokens' && (
+                <div>
+                  <span className="block text-xs text-slate-500 mb-1">Token budget (estimated, ~4 characters per token)</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step={500}
+                    value={selected.history.maxTokens}
+                    onChange={(e) => updateHistory({ maxTokens: Math.max(0, Number(e.target.value)) })}
+                    className="w-full px-3 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-sm"
+                  />
+                </div>
+              )}
+              {selected.history.strategy !== 'none' && (
+                <div className="space-y-2">
+                  <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={selected.history.excludeErrors}
+                      onChange={(e) => updateHistory({ excludeErrors: e.target.checked })}
+                      className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    Leave out error messages
+                  </label>
+                  <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={selected.history.excludeSystem}
+                      onChange={(e) => updateHistory({ excludeSystem: e.target.checked })}
+                      className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    Leave out system messages
+                  </label>
+                  {selected.history.strategy !== 'all' && (
+                    <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={selected.history.summarize}
+                        onChange={(e) => updateHistory({ summarize: e.target.checked })}
+                        className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                      />
+                      Add a condensed summary of older turns as a system message
+                    </label>
+                  )}
+                </div>
+              )}
+            </div>
+
+            <div className="pt-6 border-t border-slate-100 space-y-3">
+              <label className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+                <Gauge className="w-4 h-4 text-indigo-600" /> Upload Limits
+              </label>
+              <p className="text-xs text-slate-500">
+                Files over these limits are not accepted in the Upload tab. Use 0 for no limit.
+              </p>
+              <div className="grid grid-cols-2 gap-2">
+                {uploadLimitFields.map(({ key, label }) => (
+                  <div key={key}>
+                    <span className="block text-xs text-slate-500 mb-1">{label}</span>
+                    <input
+                      type="number"
+                      min={0}
+                      value={selected.uploadLimits[key]}
+                      onChange={(e) => updateUploadLimits({ [key]: Math.max(0, Number(e.target.value)) })}
+                      className="w-full px-3 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-sm"
+                    />
+                  </div>
+                ))}
+              </div>
+              <label className="flex items-start gap-2 text-sm text-slate-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={selected.ingestionLog.retainFiles}
+                  onChange={(e) => updateSelected({ ingestionLog: { ...selected.ingestionLog, retainFiles: e.target.checked } })}
+                  className="mt-0.5 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                <span>
+                  Keep file copies in the browser so batches can be re-run from the Ingestion History
+                  <span className="block text-xs text-slate-500">Only for the {MAX_RETAINED_BATCHES} most recent batches up to {MAX_RETAINED_BATCH_MB} MB each.</span>
+                </span>
+              </label>
+            </div>
+
+            <div className="pt-6 border-t border-slate-100 space-y-3">
+              <label className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+                <Table2 className="w-4 h-4 text-indigo-600" /> Structured Data
+              </label>
+              <p className="text-xs text-slate-500">
+                CSV, XLSX and JSON files can be sent as JSON records (<code>source: "records"</code>) using the column mapping
+                chosen in the Upload tab. Larger files are split over several requests.
+              </p>
+              <div>
+                <span className="block text-xs text-slate-500 mb-1">Records per request</span>
+                <input
+                  type="number"
+                  min={1}
+                  value={selected.structuredData.recordsPerRequest}
+                  onChange={(e) => updateSelected({ structuredData: { ...selected.structuredData, recordsPerRequest: Math.max(1, Number(e.target.value)) } })}
+                  className="w-full px-3 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-sm"
+                />
+              </div>
+            </div>
+
+            <div className="pt-6 border-t border-slate-100 space-y-3">
+              <label className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+                <ImageDown className="w-4 h-4 text-indigo-600" /> Image Processing
+              </label>
+              <p className="text-xs text-slate-500">
+                Applied in the browser to images picked, pasted or taken with the camera, in uploads and chat attachments.
+              </p>
+              <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={selected.media.stripMetadata}
+                  onChange={(e) => updateMedia({ stripMetadata: e.target.checked })}
+                  className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                Strip EXIF metadata (GPS location, camera details) from JPEG, PNG and WebP
+              </label>
+              <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={selected.media.resizeImages}
+                  onChange={(e) => updateMedia({ resizeImages: e.target.checked })}
+                  className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                Downscale large images
+              </label>
+              {selected.media.resizeImages && (
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <span className="block text-xs text-slate-500 mb-1">Max width / height (px)</span>
+                    <input
+                      type="number"
+                      min={1}
+                      step={256}
+                      value={selected.media.maxImageDimension}
+                      onChange={(e) => updateMedia({ maxImageDimension: Math.max(1, Number(e.target.value)) })}
+                      className="w-full px-3 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-sm"
+                    />
+                  </div>
+                  <div>
+                    <span className="block text-xs text-slate-500 mb-1">JPEG/WebP quality (%)</span>
+                    <input
+                      type="number"
+                      min={10}
+                      max={100}
+                      value={Math.round(selected.media.imageQuality * 100)}
+                      onChange={(e) => updateMedia({ imageQuality: Math.min(100, Math.max(10, Number(e.target.value))) / 100 })}
+                      className="w-full px-3 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-sm"
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <div className="pt-6 border-t border-slate-100 space-y-3">
+              <label className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+                <Mic className="w-4 h-4 text-indigo-600" /> Voice Input
+              </label>
+              <p className="text-xs text-slate-500">
+                Recordings are attached like any other file, marked with <code>voice: true</code> in <code>file_metadata</code> and a <code>voice_query</code> field so the workflow can transcribe them as the question.
+              </p>
+              <div>
+                <span className="block text-xs text-slate-500 mb-1">Maximum recording length (s, 0 for no limit)</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={selected.voice.maxSeconds}
+                  onChange={(e) => updateVoice({ maxSeconds: Math.max(0, Number(e.target.value)) })}
+                  className="w-full px-3 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-sm"
+                />
+              </div>
+            </div>
+
+            <div className="pt-6 border-t border-slate-100">
+              <ResponseMappingEditor
+                requestFields={selected.requestFields}
+                responseMapping={selected.responseMapping}
+                onChangeRequestFields={(requestFields) => updateSelected({ requestFields })}
+                onChangeResponseMapping={(responseMapping) => updateSelected({ responseMapping })}
               />
             </div>
           </div>
         </div>
 
-        <div className="p-6 bg-slate-50 border-t border-slate-100 flex justify-end gap-3">
-          <button 
+        <div className="p-6 bg-slate-50 border-t border-slate-100 flex items-center justify-end gap-3">
+          {selected.id !== draft.activeProfileId && (
+            <button
+              onClick={() => setDraft(prev => ({ ...prev, activeProfileId: selected.id }))}
+              className="mr-auto px-4 py-2 text-sm font-medium text-indigo-600 hover:text-indigo-700 transition-colors"
+            >
+              Use this profile
+            </button>
+          )}
+          <button
             onClick={onClose}
             className="px-4 py-2 text-sm font-medium text-slate-600 hover:text-slate-800 transition-colors"
           >
@@ -109,4 +828,4 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, o
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
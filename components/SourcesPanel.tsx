@@ -0,0 +1,83 @@
+import React, { useEffect, useRef } from 'react';
+import { BookOpen, ChevronDown, ChevronRight, ExternalLink } from 'lucide-react';
+import { ChatCitation } from '../types';
+import { isHttpUrl } from '../utils/url';
+
+interface SourcesPanelProps {
+  sources: ChatCitation[];
+  isOpen: boolean;
+  highlightedId?: number | null;
+  onToggle: () => void;
+}
+
+export const SourcesPanel: React.FC<SourcesPanelProps> = ({ sources, isOpen, highlightedId, onToggle }) => {
+  const itemRefs = useRef<Record<number, HTMLLIElement | null>>({});
+
+  // Bring the source into view when its inline marker is clicked
+  useEffect(() => {
+    if (isOpen && highlightedId != null) {
+      itemRefs.current[highlightedId]?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    }
+  }, [isOpen, highlightedId]);
+
+  const formatLocation = (source: ChatCitation) => {
+    const parts: string[] = [];
+    if (source.page !== undefined) parts.push(`p. ${source.page}`);
+    if (source.timestamp) parts.push(source.timestamp);
+    return parts.join(' · ');
+  };
+
+  return (
+    <div className="w-full">
+      <button
+        onClick={onToggle}
+        className="flex items-center gap-1.5 text-xs font-medium text-slate-500 hover:text-indigo-600 transition-colors"
+      >
+        {isOpen ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />}
+        <BookOpen className="w-3.5 h-3.5" />
+        {sources.length} {sources.length === 1 ? 'source' : 'sources'}
+      </button>
+
+      {isOpen && (
+        <ol className="mt-2 space-y-2">
+          {sources.map(source => (
+            <li
+              key={source.id}
+              ref={el => { itemRefs.current[source.id] = el; }}
+              className={`p-3 rounded-lg border text-xs transition-colors ${
+                source.id === highlightedId ? 'bg-indigo-50 border-indigo-200' : 'bg-white border-slate-200'
+              }`}
+            >
+              <div className="flex items-center gap-2">
+                <span className="flex-shrink-0 inline-flex items-center justify-center w-5 h-5 rounded-full bg-indigo-100 text-indigo-700 font-semibold text-[10px]">
+                  {source.id}
+                </span>
+                <span className="font-medium text-slate-800 truncate" title={source.documentName}>{source.documentName}</span>
+                {formatLocation(source) && <span className="text-slate-400 whitespace-nowrap">{formatLocation(source)}</span>}
+                {source.score !== undefined && (
+                  <span className="ml-auto text-slate-400 whitespace-nowrap" title="Retrieval score">
+                    {source.score <= 1 ? `${Math.round(source.score * 100)}%` : source.score.toFixed(2)}
+                  </span>
+                )}
+                {isHttpUrl(source.url) && (
+                  <a
+                    href={source.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className={`${source.score === undefined ? 'ml-auto' : ''} text-slate-400 hover:text-indigo-600`}
+                    title="Open source"
+                  >
+                    <ExternalLink className="w-3.5 h-3.5" />
+                  </a>
+                )}
+              </div>
+              {source.snippet && (
+                <p className="mt-2 text-slate-600 leading-relaxed whitespace-pre-wrap">{source.snippet}</p>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
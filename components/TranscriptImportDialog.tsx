@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { FileInput, X, MessageSquare, RotateCcw } from 'lucide-react';
+import { ChatSession, MessageRole, WebhookProfile } from '../types';
+
+interface TranscriptImportDialogProps {
+  session: ChatSession; // Parsed transcript, not yet added to the session list
+  profiles: WebhookProfile[];
+  activeProfileId: string;
+  onContinue: () => void;
+  onReplay: (profileId: string) => void;
+  onClose: () => void;
+}
+
+type ImportMode = 'continue' | 'replay';
+
+/**
+ * Asks whether an imported transcript should be continued as is, or have its
+ * questions replayed against a (possibly different) profile's chat webhook.
+ */
+export const TranscriptImportDialog: React.FC<TranscriptImportDialogProps> = ({
+  session,
+  profiles,
+  activeProfileId,
+  onContinue,
+  onReplay,
+  onClose
+}) => {
+  const [mode, setMode] = useState<ImportMode>('continue');
+  const [profileId, setProfileId] = useState(activeProfileId);
+  const questionCount = session.messages.filter(m => m.role === MessageRole.USER).length;
+  const hasAttachments = session.messages.some(m => m.attachments?.length);
+
+  const handleImport = () => {
+    if (mode === 'continue') onContinue();
+    else onReplay(profileId);
+  };
+
+  const optionClass = (value: ImportMode) => `flex items-start gap-3 p-4 border rounded-xl cursor-pointer transition-colors ${
+    mode === value ? 'border-indigo-300 bg-indigo-50/50' : 'border-slate-200 hover:bg-slate-50'
+  }`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-full flex flex-col overflow-hidden animate-in fade-in zoom-in duration-200">
+        <div className="flex items-center justify-between p-6 border-b border-slate-100">
+          <div className="flex items-center gap-2 text-indigo-600">
+            <FileInput className="w-5 h-5" />
+            <h2 className="text-xl font-bold text-slate-900">Import Conversation</h2>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition-colors">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <div>
+            <p className="font-medium text-slate-800 truncate" title={session.title}>{session.title}</p>
+            <p className="text-xs text-slate-500">
+              {session.messages.length} messages, {questionCount} question(s) · started {new Date(session.createdAt).toLocaleString()}
+            </p>
+          </div>
+
+          <label className={optionClass('continue')}>
+            <input type="radio" checked={mode === 'continue'} onChange={() => setMode('continue')} className="mt-1 text-indigo-600 focus:ring-indigo-500" />
+            <div>
+              <span className="flex items-center gap-2 text-sm font-medium text-slate-800">
+                <MessageSquare className="w-4 h-4" /> Continue the conversation
+              </span>
+              <span className="block text-xs text-slate-500 mt-1">
+                Adds the transcript as a new chat. Earlier messages are sent as history with your next question.
+              </span>
+            </div>
+          </label>
+
+          <label className={optionClass('replay')}>
+            <input type="radio" checked={mode === 'replay'} onChange={() => setMode('replay')} className="mt-1 text-indigo-600 focus:ring-indigo-500" />
+            <div className="flex-1 min-w-0">
+              <span className="flex items-center gap-2 text-sm font-medium text-slate-800">
+                <RotateCcw className="w-4 h-4" /> Replay the questions
+              </span>
+              <span className="block text-xs text-slate-500 mt-1">
+                Sends each question again, in order, to the chat webhook of the chosen profile and records the new answers in a new chat.
+                {hasAttachments && ' Attachments are not part of the transcript and are not resent.'}
+              </span>
+              {mode === 'replay' && (
+                <select
+                  value={profileId}
+                  onChange={(e) => setProfileId(e.target.value)}
+                  className="mt-3 w-full px-3 py-2 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                  {profiles.map(profile => (
+                    <option key={profile.id} value={profile.id} disabled={!profile.chatUrl}>
+                      {profile.name}{profile.chatUrl ? '' : ' (no chat webhook)'}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+          </label>
+        </div>
+
+        <div className="p-6 bg-slate-50 border-t border-slate-100 flex items-center justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-slate-600 hover:text-slate-800 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={mode === 'replay' && (questionCount === 0 || !profiles.find(p => p.id === profileId)?.chatUrl)}
+            className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm font-medium hover:bg-indigo-700 transition-colors shadow-sm disabled:opacity-50"
+          >
+            {mode === 'continue' ? 'Import' : 'Import & replay'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { Globe, Plus, ChevronDown, ChevronRight, TriangleAlert } from 'lucide-react';
+import { UrlSourceItem, UrlSourceKind } from '../types';
+import { DEFAULT_CRAWL_OPTIONS } from '../constants';
+import { detectUrlSourceKind, parseUrlList } from '../services/urlIngestion';
+
+interface UrlSourceInputProps {
+  existingUrls: string[];
+  disabled: boolean;
+  onAdd: (sources: UrlSourceItem[]) => void;
+}
+
+type KindChoice = 'auto' | UrlSourceKind;
+
+const splitPatterns = (text: string) => text.split(/[\n,]+/).map(p => p.trim()).filter(Boolean);
+
+/**
+ * Adds web pages or sitemaps to the upload list. The ingestion workflow fetches and crawls them.
+ */
+export const UrlSourceInput: React.FC<UrlSourceInputProps> = ({ existingUrls, disabled, onAdd }) => {
+  const [text, setText] = useState('');
+  const [kind, setKind] = useState<KindChoice>('auto');
+  const [depth, setDepth] = useState(DEFAULT_CRAWL_OPTIONS.depth);
+  const [include, setInclude] = useState('');
+  const [exclude, setExclude] = useState('');
+  const [isOptionsOpen, setIsOptionsOpen] = useState(false);
+  const [warning, setWarning] = useState<string | null>(null);
+
+  const handleAdd = () => {
+    const { urls, invalid } = parseUrlList(text);
+    const fresh = urls.filter(url => !existingUrls.includes(url));
+    const crawl = { depth, includePatterns: splitPatterns(include), excludePatterns: splitPatterns(exclude) };
+
+    onAdd(fresh.map(url => ({
+      id: Math.random().toString(36).substring(7),
+      url,
+      kind: kind === 'auto' ? detectUrlSourceKind(url) : kind,
+      crawl,
+      status: 'pending'
+    })));
+
+    const skipped = urls.length - fresh.length;
+    setWarning([
+      invalid.length > 0 && `Not a valid web address: ${invalid.join(', ')}`,
+      skipped > 0 && `${skipped} URL(s) already in the list.`
+    ].filter(Boolean).join(' ') || null);
+    setText(invalid.join('\n'));
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+        <Globe className="w-4 h-4 text-indigo-600" /> Web Pages
+      </label>
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        disabled={disabled}
+        rows={3}
+        placeholder={'https://docs.example.com/getting-started\nhttps://example.com/sitemap.xml'}
+        className="w-full p-3 border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-transparent resize-none text-slate-700 text-sm font-mono disabled:bg-slate-50"
+      />
+      {warning && (
+        <p className="flex items-start gap-1 text-xs text-amber-700">
+          <TriangleAlert className="w-3 h-3 mt-0.5 flex-shrink-0" /> {warning}
+        </p>
+      )}
+
+      <button
+        type="button"
+        onClick={() => setIsOptionsOpen(prev => !prev)}
+        className="flex items-center gap-1 text-xs font-medium text-slate-500 hover:text-slate-700"
+      >
+        {isOptionsOpen ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+        Crawl options: {kind === 'auto' ? 'detect sitemaps' : kind === 'sitemap' ? 'sitemaps' : 'pages'}, depth {depth}
+        {(include.trim() || exclude.trim()) && ', filtered'}
+      </button>
+
+      {isOptionsOpen && (
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <span className="block text-xs text-slate-500 mb-1">Treat URLs as</span>
+            <select
+              value={kind}
+              onChange={(e) => setKind(e.target.value as KindChoice)}
+              className="w-full px-3 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-sm bg-white"
+            >
+              <option value="auto">Detect (.xml = sitemap)</option>
+              <option value="page">Single pages</option>
+              <option value="sitemap">Sitemaps</option>
+            </select>
+          </div>
+          <div>
+            <span className="block text-xs text-slate-500 mb-1">Link depth (0 = only the page)</span>
+            <input
+              type="number"
+              min={0}
+              max={5}
+              value={depth}
+              onChange={(e) => setDepth(Math.min(5, Math.max(0, Number(e.target.value))))}
+              className="w-full px-3 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-sm"
+            />
+          </div>
+          <div>
+            <span className="block text-xs text-slate-500 mb-1">Include URLs matching</span>
+            <input
+              value={include}
+              onChange={(e) => setInclude(e.target.value)}
+              placeholder="https://docs.example.com/*"
+              className="w-full px-3 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-sm font-mono"
+            />
+          </div>
+          <div>
+            <span className="block text-xs text-slate-500 mb-1">Exclude URLs matching</span>
+            <input
+              value={exclude}
+              onChange={(e) => setExclude(e.target.value)}
+              placeholder="*/archive/*, *.pdf"
+              className="w-full px-3 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-sm font-mono"
+            />
+          </div>
+        </div>
+      )}
+
+      <button
+        type="button"
+        onClick={handleAdd}
+        disabled={disabled || !text.trim()}
+        className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-indigo-600 border border-indigo-200 rounded-lg hover:bg-indigo-50 transition-colors disabled:opacity-50"
+      >
+        <Plus className="w-4 h-4" /> Add to upload list
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,191 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Mic, Square, Trash2, Check, X, AlertCircle } from 'lucide-react';
+import { createVoiceFile, getRecordingMimeType, isVoiceRecordingSupported } from '../utils/voice';
+
+interface VoiceRecorderProps {
+  maxSeconds: number;
+  disabled: boolean;
+  onRecorded: (file: File) => void;
+}
+
+interface RecordedClip {
+  blob: Blob;
+  url: string;
+  seconds: number;
+}
+
+const formatDuration = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+
+/**
+ * Microphone button for the chat composer. Records a clip with a live level meter,
+ * stops on request or at `maxSeconds`, and lets the user listen before attaching it.
+ */
+export const VoiceRecorder: React.FC<VoiceRecorderProps> = ({ maxSeconds, disabled, onRecorded }) => {
+  const [isRecording, setIsRecording] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+  const [level, setLevel] = useState(0);
+  const [clip, setClip] = useState<RecordedClip | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const frameRef = useRef<number>(0);
+  const timerRef = useRef<ReturnType<typeof setInterval>>(undefined);
+  const discardRef = useRef(false); // Set when a recording is cancelled rather than stopped
+
+  const releaseDevices = () => {
+    cancelAnimationFrame(frameRef.current);
+    clearInterval(timerRef.current);
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    audioContextRef.current?.close().catch(() => {});
+    audioContextRef.current = null;
+    setLevel(0);
+  };
+
+  useEffect(() => () => {
+    discardRef.current = true;
+    if (recorderRef.current?.state === 'recording') recorderRef.current.stop();
+    releaseDevices();
+  }, []);
+
+  useEffect(() => () => {
+    if (clip) URL.revokeObjectURL(clip.url);
+  }, [clip]);
+
+  const stopRecording = () => {
+    if (recorderRef.current?.state === 'recording') recorderRef.current.stop();
+  };
+
+  useEffect(() => {
+    if (isRecording && maxSeconds > 0 && elapsed >= maxSeconds) stopRecording();
+  }, [isRecording, elapsed, maxSeconds]);
+
+  const startRecording = async () => {
+    setError(null);
+    setClip(null);
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (e) {
+      console.error("Microphone access failed:", e);
+      setError(e instanceof DOMException && e.name === 'NotAllowedError'
+        ? 'Microphone access was denied. Allow it in the browser to record.'
+        : 'No microphone is available.');
+      return;
+    }
+    streamRef.current = stream;
+
+    const mimeType = getRecordingMimeType();
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    const chunks: Blob[] = [];
+    const startedAt = Date.now();
+    discardRef.current = false;
+    recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+    recorder.onstop = () => {
+      releaseDevices();
+      setIsRecording(false);
+      if (discardRef.current || chunks.length === 0) return;
+      const blob = new Blob(chunks, { type: recorder.mimeType || mimeType || 'audio/webm' });
+      setClip({ blob, url: URL.createObjectURL(blob), seconds: (Date.now() - startedAt) / 1000 });
+    };
+    recorderRef.current = recorder;
+
+    // Level meter: RMS of the waveform, scaled so normal speech fills most of the bar
+    const audioContext = new AudioContext();
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = 512;
+    audioContext.createMediaStreamSource(stream).connect(analyser);
+    audioContextRef.current = audioContext;
+    const samples = new Uint8Array(analyser.fftSize);
+    const sample = () => {
+      analyser.getByteTimeDomainData(samples);
+      const rms = Math.sqrt(samples.reduce((sum, value) => sum + ((value - 128) / 128) ** 2, 0) / samples.length);
+      setLevel(Math.min(1, rms * 4));
+      frameRef.current = requestAnimationFrame(sample);
+    };
+    sample();
+
+    setElapsed(0);
+    timerRef.current = setInterval(() => setElapsed((Date.now() - startedAt) / 1000), 200);
+    recorder.start(250);
+    setIsRecording(true);
+  };
+
+  const cancelRecording = () => {
+    discardRef.current = true;
+    stopRecording();
+  };
+
+  const attachClip = () => {
+    if (!clip) return;
+    onRecorded(createVoiceFile(clip.blob));
+    setClip(null);
+  };
+
+  if (!isVoiceRecordingSupported()) return null;
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={isRecording ? stopRecording : startRecording}
+        disabled={disabled || !!clip}
+        className={`
+            flex-shrink-0 p-3 mb-0.5 rounded-xl transition-all disabled:opacity-50
+            ${isRecording ? 'bg-red-50 text-red-600' : 'text-slate-400 hover:text-indigo-600 hover:bg-indigo-50'}
+        `}
+        title={isRecording ? 'Stop recording' : 'Record a voice message'}
+      >
+        {isRecording ? <Square className="w-5 h-5 fill-current" /> : <Mic className="w-5 h-5" />}
+      </button>
+
+      {(isRecording || clip || error) && (
+        <div className="absolute bottom-full left-0 right-0 mb-3 flex items-center gap-3 bg-white border border-slate-200 shadow-lg rounded-xl px-4 py-3 animate-in slide-in-from-bottom-2">
+          {isRecording && (
+            <>
+              <span className="w-2.5 h-2.5 rounded-full bg-red-500 animate-pulse flex-shrink-0" />
+              <span className="text-sm font-mono text-slate-700 tabular-nums">
+                {formatDuration(elapsed)}{maxSeconds > 0 && <span className="text-slate-400"> / {formatDuration(maxSeconds)}</span>}
+              </span>
+              <div className="flex-1 h-2 bg-slate-100 rounded-full overflow-hidden" title="Input level">
+                <div className="h-full bg-emerald-500 transition-[width] duration-75" style={{ width: `${level * 100}%` }} />
+              </div>
+              <button type="button" onClick={cancelRecording} className="p-1.5 rounded-lg text-slate-400 hover:text-red-500 hover:bg-red-50 transition-colors" title="Discard recording">
+                <Trash2 className="w-4 h-4" />
+              </button>
+              <button type="button" onClick={stopRecording} className="px-3 py-1.5 text-xs font-medium bg-slate-800 text-white rounded-lg hover:bg-slate-900 transition-colors">
+                Stop
+              </button>
+            </>
+          )}
+
+          {clip && (
+            <>
+              <audio src={clip.url} controls className="flex-1 h-9 min-w-0" />
+              <span className="text-xs text-slate-500 tabular-nums">{formatDuration(clip.seconds)}</span>
+              <button type="button" onClick={() => setClip(null)} className="p-1.5 rounded-lg text-slate-400 hover:text-red-500 hover:bg-red-50 transition-colors" title="Discard recording">
+                <Trash2 className="w-4 h-4" />
+              </button>
+              <button type="button" onClick={attachClip} className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors">
+                <Check className="w-3.5 h-3.5" /> Attach
+              </button>
+            </>
+          )}
+
+          {error && !isRecording && !clip && (
+            <>
+              <AlertCircle className="w-4 h-4 text-red-500 flex-shrink-0" />
+              <span className="flex-1 text-sm text-red-600">{error}</span>
+              <button type="button" onClick={() => setError(null)} className="p-1 rounded-md text-slate-400 hover:text-slate-600 transition-colors">
+                <X className="w-4 h-4" />
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </>
+  );
+};
@@ -1,14 +1,159 @@
-import { WebhookConfig } from "./types";
+import { CrawlOptions, WebhookConfig } from "./types";
 
 export const DEFAULT_CONFIG: WebhookConfig = {
   ingestionUrl: 'https://n8n.edutechnd.org/webhook/n8nchatbot',
-  chatUrl: 'https://n8n.edutechnd.org/webhook/n8nchatbot'
+  chatUrl: 'https://n8n.edutechnd.org/webhook/n8nchatbot',
+  listDocumentsUrl: '',
+  deleteDocumentUrl: '',
+  feedbackUrl: '',
+  headers: [],
+  auth: {
+    type: 'none',
+    headerName: 'Authorization',
+    headerValue: '',
+    username: '',
+    password: '',
+    jwtToken: '',
+    jwtSecret: ''
+  },
+  signing: {
+    enabled: false,
+    secret: '',
+    signatureHeader: 'X-Signature',
+    timestampHeader: 'X-Signature-Timestamp'
+  },
+  requestFields: {
+    message: 'message',
+    // Also sent as chatInput for compatibility with some N8N chat templates
+    chatInput: 'chatInput',
+    sessionId: 'sessionId',
+    history: 'history'
+  },
+  responseMapping: {
+    answerPath: '',
+    sourcesPath: '',
+    sessionIdPath: '',
+    suggestionsPath: ''
+  },
+  preprocessing: {
+    enabled: false,
+    mode: 'alongside',
+    chunkSize: 1000,
+    chunkOverlap: 200
+  },
+  timeouts: {
+    requestSeconds: 120,
+    uploadSeconds: 600
+  },
+  history: {
+    strategy: 'turns',
+    maxTurns: 10,
+    maxTokens: 4000,
+    excludeErrors: true,
+    excludeSystem: true,
+    summarize: false
+  },
+  voice: {
+    maxSeconds: 120
+  },
+  media: {
+    resizeImages: false,
+    maxImageDimension: 2048,
+    imageQuality: 0.85,
+    stripMetadata: true
+  },
+  uploadLimits: {
+    maxDocumentMb: 50,
+    maxImageMb: 20,
+    maxAudioMb: 100,
+    maxVideoMb: 500,
+    maxBatchMb: 1000,
+    maxBatchFiles: 50
+  },
+  ingestionLog: {
+    retainFiles: false
+  },
+  structuredData: {
+    recordsPerRequest: 100
+  }
 };
 
-// Bump version to v2 to force reload of defaults for users with old config cached
+// Tried in order when no answer path is configured (after unwrapping a single-item array)
+export const AUTO_ANSWER_PATHS = [
+  'output',
+  'text',
+  'message',
+  'answer',
+  'response.text',
+  'choices.0.message.content',
+  'choices.0.text'
+];
+
+// Lifetime of JWTs signed in the browser from a shared secret
+export const JWT_TTL_SECONDS = 300;
+
+export const DEFAULT_PROFILE_NAME = 'Default';
+
+// Legacy single-config entry (v2), migrated into the first profile on load
 export const LOCAL_STORAGE_CONFIG_KEY = 'n8n_chatbot_config_v2';
 
-export const MAX_FILE_SIZE_MB = 50; // 50MB limit
+export const LOCAL_STORAGE_PROFILES_KEY = 'n8n_chatbot_profiles_v1';
+
+export const LOCAL_STORAGE_ACTIVE_SESSION_KEY = 'n8n_chatbot_active_session';
+
+// Conversation of the embeddable widget, kept per browser tab
+export const SESSION_STORAGE_WIDGET_KEY = 'n8n_chatbot_widget_conversation';
+
+// IndexedDB database holding chat sessions
+export const INDEXED_DB_NAME = 'n8n_chatbot';
+
+// Ingestion log size: older batches are dropped, and file copies are only kept for the
+// most recent batches (and never for batches larger than the size cap)
+export const MAX_INGESTION_LOG_ENTRIES = 200;
+export const MAX_RETAINED_BATCHES = 20;
+export const MAX_RETAINED_BATCH_MB = 200;
+export const MAX_LOGGED_RESPONSE_CHARS = 4000;
+
+// Crawl options offered when adding web pages to the Upload tab
+export const DEFAULT_CRAWL_OPTIONS: CrawlOptions = { depth: 0, includePatterns: [], excludePatterns: [] };
+
+// Rows kept from a CSV/XLSX/JSON file, and rows shown in its preview
+export const MAX_TABLE_ROWS = 50000;
+export const TABLE_PREVIEW_ROWS = 20;
+
+// Browser-side chunking limits: smaller chunks, or an overlap near the chunk size, would
+// turn a modest document into hundreds of thousands of chunks
+export const MIN_CHUNK_SIZE = 100;
+export const MAX_CHUNK_OVERLAP_RATIO = 0.5;
+
+// Below this many characters per page a PDF is assumed to be scanned (no text layer)
+export const MIN_TEXT_CHARS_PER_PAGE = 20;
+
+// Page size requested from the list documents webhook
+export const KNOWLEDGE_BASE_PAGE_SIZE = 500;
+
+// Content hashes of files ingested per profile, to flag re-uploads of the same file
+export const LOCAL_STORAGE_INGESTED_HASHES_KEY = 'n8n_chatbot_ingested_hashes';
+export const MAX_INGESTED_HASHES = 5000;
+// Larger files are not hashed (read whole into memory); duplicates fall back to name, size and date
+export const MAX_HASHED_FILE_SIZE_MB = 256;
+
+// Files larger than this are sent in byte-range chunks that N8N reassembles by upload_id
+export const UPLOAD_CHUNK_SIZE_MB = 8;
+export const MAX_CHUNK_RETRIES = 3;
+export const CHUNK_RETRY_BASE_DELAY_MS = 1000;
+
+// Completed chunks of interrupted uploads, so a retry can skip them
+export const LOCAL_STORAGE_UPLOAD_PROGRESS_KEY = 'n8n_chatbot_upload_progress';
+export const UPLOAD_RESUME_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Form field sent with every webhook request; automatic retries and outbox resends reuse the key.
+// A field rather than a header, so requests without auth stay simple and need no CORS preflight.
+export const IDEMPOTENCY_KEY_FIELD = 'idempotency_key';
+
+// Outbox retry backoff, doubling from the base delay up to the cap
+export const OUTBOX_RETRY_BASE_DELAY_MS = 5000;
+export const OUTBOX_RETRY_MAX_DELAY_MS = 5 * 60 * 1000;
 
 export const SAMPLE_QUESTIONS = [
   "Summarize the documents I just uploaded.",
@@ -0,0 +1,49 @@
+import { ChatCitation } from "../types";
+import { isRecord } from "../utils/json";
+import { isHttpUrl } from "../utils/url";
+
+const MAX_SNIPPET_LENGTH = 600;
+
+const firstString = (...values: unknown[]): string | undefined =>
+  values.find((v): v is string => typeof v === 'string' && v.trim() !== '');
+
+const firstNumber = (...values: unknown[]): number | undefined => {
+  for (const v of values) {
+    const n = typeof v === 'string' ? Number(v) : v;
+    if (typeof n === 'number' && !isNaN(n)) return n;
+  }
+  return undefined;
+};
+
+/**
+ * Normalizes the `sources` array returned by the chat workflow.
+ *
+ * Each entry may use the documented fields (`documentName`, `page`, `timestamp`,
+ * `snippet`, `score`, `url`) or the shapes LangChain retrievers emit in N8N
+ * (`pageContent` plus `metadata.source` / `metadata.loc.pageNumber`).
+ * Entries without an `id` are numbered in order, matching `[1]`, `[2]`... in the answer.
+ * Only http(s) URLs are kept, since they are rendered as links.
+ */
+export const parseCitations = (raw: unknown): ChatCitation[] => {
+  if (!Array.isArray(raw)) return [];
+
+  return raw
+    .filter(isRecord)
+    .map((entry, index): ChatCitation => {
+      const metadata = isRecord(entry.metadata) ? entry.metadata : {};
+      const loc = isRecord(metadata.loc) ? metadata.loc : {};
+      const snippet = firstString(entry.snippet, entry.text, entry.pageContent, entry.content);
+      return {
+        id: firstNumber(entry.id) ?? index + 1,
+        documentName: firstString(
+          entry.documentName, entry.document, entry.name, entry.fileName, entry.source,
+          metadata.documentName, metadata.fileName, metadata.source
+        ) ?? `Source ${index + 1}`,
+        page: firstNumber(entry.page, entry.pageNumber, metadata.page, loc.pageNumber),
+        timestamp: firstString(entry.timestamp, metadata.timestamp),
+        snippet: snippet && snippet.length > MAX_SNIPPET_LENGTH ? `${snippet.slice(0, MAX_SNIPPET_LENGTH)}…` : snippet,
+        score: firstNumber(entry.score, entry.similarity, metadata.score),
+        url: [entry.url, metadata.url].find(isHttpUrl)
+      };
+    });
+};
@@ -0,0 +1,205 @@
+import { WebhookConfig } from "../types";
+import { createId } from "../utils/id";
+import { createRequestTimer } from "../utils/timeout";
+import { prepareWebhookRequest } from "./webhookAuth";
+import { classifyErrorResponse, getErrorAdvice } from "./errors";
+import { mapChatResponse } from "./responseMapper";
+
+export type DiagnosticTarget = 'chat' | 'ingestion';
+export type DiagnosticStatus = 'pass' | 'warn' | 'fail';
+// 'check' sends an OPTIONS request, answered by the Webhook node's CORS handling without running
+// the workflow. 'probe' POSTs a request the workflow runs, so its reply can be checked too.
+export type DiagnosticMode = 'check' | 'probe';
+
+export interface DiagnosticCheck {
+  label: string;
+  status: DiagnosticStatus;
+  detail?: string;
+}
+
+export interface DiagnosticReport {
+  url: string;
+  checks: DiagnosticCheck[];
+  status?: number;       // HTTP status of the probe, when a response arrived
+  latencyMs?: number;    // Until the full reply was read
+  responseSample?: string;
+}
+
+const RESPONSE_SAMPLE_LENGTH = 1000;
+const SLOW_RESPONSE_MS = 10000;
+
+// N8N's reply to a webhook set to "Respond: Immediately"
+const WORKFLOW_STARTED_PATTERN = /^\s*\{\s*"message"\s*:\s*"Workflow was started"\s*\}\s*$/;
+// N8N's 404 when the path exists for another method, e.g. "Did you mean to make a GET request?"
+const WRONG_METHOD_PATTERN = /not registered for POST|did you mean to make a (GET|PUT|PATCH|DELETE|HEAD) request/i;
+
+const checkUrl = (url: string): DiagnosticCheck[] => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch (e) {
+    return [{ label: 'URL format', status: 'fail', detail: 'Not a valid URL.' }];
+  }
+
+  const checks: DiagnosticCheck[] = [];
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    checks.push({ label: 'URL format', status: 'fail', detail: 'Use an http:// or https:// URL.' });
+  } else if (parsed.pathname.includes('/webhook-test/')) {
+    checks.push({
+      label: 'URL format',
+      status: 'warn',
+      detail: "Test URL: it only listens after you click 'Execute workflow' in N8N, for a single call. Use the /webhook/ URL of the active workflow for everyday use."
+    });
+  } else if (!parsed.pathname.includes('/webhook/')) {
+    checks.push({ label: 'URL format', status: 'warn', detail: 'The path has no /webhook/ segment. Fine for a custom webhook path or proxy, otherwise copy the Production URL from the Webhook node.' });
+  } else {
+    checks.push({ label: 'URL format', status: 'pass' });
+  }
+
+  if (window.location.protocol === 'https:' && parsed.protocol === 'http:') {
+    checks.push({ label: 'Mixed content', status: 'fail', detail: 'This page is served over HTTPS, so the browser blocks requests to an http:// webhook. Serve N8N over HTTPS.' });
+  }
+  return checks;
+};
+
+const buildProbeForm = (config: WebhookConfig, target: DiagnosticTarget): FormData => {
+  const formData = new FormData();
+  const message = 'Connection test from the N8N chatbot settings';
+  formData.append('probe', 'true');
+
+  if (target === 'chat') {
+    const fields = config.requestFields;
+    const appendField = (name: string, value: string) => {
+      if (name.trim()) formData.append(name.trim(), value);
+    };
+    appendField(fields.message, message);
+    appendField(fields.chatInput, message);
+    appendField(fields.sessionId, 'connection-test');
+    appendField(fields.history, '[]');
+  } else {
+    const batchId = createId();
+    formData.append('message', message);
+    formData.append('chatInput', message);
+    formData.append('batchId', batchId);
+    formData.append('sessionId', batchId);
+  }
+  formData.append('file_count', '0');
+  return formData;
+};
+
+/**
+ * Tells a CORS block apart from an unreachable host: an opaque `no-cors` request still
+ * succeeds when the server answers but does not allow this origin.
+ */
+const diagnoseNetworkFailure = async (url: string, timeoutSeconds: number): Promise<DiagnosticCheck> => {
+  const timer = createRequestTimer(timeoutSeconds);
+  try {
+    await fetch(url, { method: 'HEAD', mode: 'no-cors', signal: timer.signal });
+  } catch (e) {
+    return timer.timedOut()
+      ? { label: 'Reachable', status: 'fail', detail: `No answer within ${timeoutSeconds} seconds. Check the URL, that N8N is running, and your network or VPN.` }
+      : { label: 'Reachable', status: 'fail', detail: 'No answer from the host. Check the URL, that N8N is running, and your network or VPN.' };
+  } finally {
+    timer.clear();
+  }
+  // OPTIONS checks, and requests with auth, signing or custom headers, are preflighted first
+  return {
+    label: 'CORS',
+    status: 'fail',
+    detail: `N8N answered, but the browser blocked the request: the CORS preflight or the reply does not allow ${window.location.origin}. Add it to the Webhook node's 'Allowed Origins (CORS)' option, and allow the auth and custom headers on any proxy in front of N8N.`
+  };
+};
+
+const checkResponseBody = (config: WebhookConfig, target: DiagnosticTarget, bodyText: string): DiagnosticCheck[] => {
+  if (WORKFLOW_STARTED_PATTERN.test(bodyText)) {
+    return [target === 'chat'
+      ? { label: 'Respond node', status: 'fail', detail: "The Webhook node responds immediately, so no answer comes back. Set 'Respond' to 'When Last Node Finishes' or 'Using Respond to Webhook Node'." }
+      : { label: 'Respond node', status: 'warn', detail: "The Webhook node responds immediately, so per-file ingestion results cannot be reported." }];
+  }
+  if (!bodyText.trim()) {
+    return [{ label: 'Response format', status: target === 'chat' ? 'fail' : 'warn', detail: 'The reply is empty. Check that the Respond to Webhook node returns data.' }];
+  }
+
+  const firstLine = bodyText.trimStart().split('\n')[0];
+  if (firstLine.startsWith('data:') || /^\{"type":\s*"(begin|item)"/.test(firstLine)) {
+    return [{ label: 'Response format', status: 'pass', detail: 'Streaming reply.' }];
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(bodyText);
+  } catch (e) {
+    return [{ label: 'Response format', status: 'warn', detail: 'The reply is not JSON and will be shown as plain text. Set the Respond to Webhook node to respond with JSON.' }];
+  }
+
+  const checks: DiagnosticCheck[] = [{ label: 'Response format', status: 'pass', detail: 'JSON reply.' }];
+  if (target === 'chat') {
+    const mapped = mapChatResponse(data, config.responseMapping);
+    // An unrecognized reply falls back to the raw JSON
+    checks.push(mapped.text.trim() && mapped.text !== JSON.stringify(data)
+      ? { label: 'Answer found', status: 'pass' }
+      : { label: 'Answer found', status: 'warn', detail: 'No answer field was recognized. Set the answer path under Request & Response Mapping.' });
+  }
+  return checks;
+};
+
+const buildProbeRequest = async (config: WebhookConfig, target: DiagnosticTarget): Promise<RequestInit> => {
+  const request = await prepareWebhookRequest(config, buildProbeForm(config, target));
+  return { method: 'POST', headers: request.headers, body: request.body };
+};
+
+/**
+ * Tests the chat or ingestion webhook and reports a checklist of common N8N setup problems.
+ * In 'check' mode nothing runs; a 'probe' carries a `probe=true` field workflows can filter on.
+ */
+export const runConnectionDiagnostics = async (
+  config: WebhookConfig,
+  target: DiagnosticTarget,
+  mode: DiagnosticMode = 'check'
+): Promise<DiagnosticReport> => {
+  const url = target === 'chat' ? config.chatUrl : config.ingestionUrl;
+  const report: DiagnosticReport = { url, checks: checkUrl(url) };
+  if (report.checks.some(c => c.status === 'fail')) return report;
+
+  const init = mode === 'probe' ? await buildProbeRequest(config, target) : { method: 'OPTIONS' };
+  const timer = createRequestTimer(config.timeouts.requestSeconds);
+  const startedAt = performance.now();
+  let response: Response;
+  let bodyText: string;
+  try {
+    response = await fetch(url, { ...init, signal: timer.signal });
+    bodyText = await response.text();
+  } catch (error) {
+    if (timer.timedOut()) {
+      report.checks.push({ label: 'Reachable', status: 'fail', detail: `No reply within ${config.timeouts.requestSeconds} seconds.` });
+    } else {
+      report.checks.push(await diagnoseNetworkFailure(url, config.timeouts.requestSeconds));
+    }
+    return report;
+  } finally {
+    timer.clear();
+  }
+
+  report.latencyMs = Math.round(performance.now() - startedAt);
+  report.status = response.status;
+  report.responseSample = bodyText.slice(0, RESPONSE_SAMPLE_LENGTH);
+  report.checks.push({ label: 'Reachable', status: 'pass' }, { label: 'CORS', status: 'pass' });
+
+  if (!response.ok) {
+    const error = classifyErrorResponse(response.status, bodyText, response.statusText, url);
+    const advice = getErrorAdvice(error.kind, error.message);
+    const detail = mode === 'probe' && WRONG_METHOD_PATTERN.test(bodyText)
+      ? "The webhook exists but not for POST. Set the Webhook node's 'HTTP Method' to POST."
+      : [error.message, advice].filter(Boolean).join(' ');
+    report.checks.push({ label: `HTTP ${response.status}`, status: 'fail', detail });
+    return report;
+  }
+
+  report.checks.push({ label: `HTTP ${response.status}`, status: 'pass' });
+  if (mode === 'check') return report;
+  report.checks.push(...checkResponseBody(config, target, bodyText));
+  report.checks.push(report.latencyMs > SLOW_RESPONSE_MS
+    ? { label: 'Latency', status: 'warn', detail: `${report.latencyMs} ms. Consider responding before slow steps.` }
+    : { label: 'Latency', status: 'pass', detail: `${report.latencyMs} ms` });
+  return report;
+};
@@ -0,0 +1,68 @@
+import { INDEXED_DB_NAME } from "../constants";
+
+// Bump DB_VERSION whenever a store is added; missing stores are created on upgrade.
+const DB_VERSION = 3;
+
+export const STORES = {
+  SESSIONS: 'sessions',
+  OUTBOX: 'outbox',
+  INGESTION_LOG: 'ingestionLog',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Opens (and lazily upgrades) the app's IndexedDB database.
+ * Every store uses the record's `id` field as its key.
+ */
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(INDEXED_DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      Object.values(STORES).forEach(store => {
+        if (!db.objectStoreNames.contains(store)) {
+          db.createObjectStore(store, { keyPath: 'id' });
+        }
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+export const getAllRecords = async <T>(store: StoreName): Promise<T[]> => {
+  const db = await openDatabase();
+  return requestToPromise(db.transaction(store, 'readonly').objectStore(store).getAll() as IDBRequest<T[]>);
+};
+
+export const getRecord = async <T>(store: StoreName, id: string): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return requestToPromise(db.transaction(store, 'readonly').objectStore(store).get(id) as IDBRequest<T | undefined>);
+};
+
+export const putRecord = async <T>(store: StoreName, record: T): Promise<void> => {
+  const db = await openDatabase();
+  await requestToPromise(db.transaction(store, 'readwrite').objectStore(store).put(record));
+};
+
+export const deleteRecord = async (store: StoreName, id: string): Promise<void> => {
+  const db = await openDatabase();
+  await requestToPromise(db.transaction(store, 'readwrite').objectStore(store).delete(id));
+};
@@ -0,0 +1,109 @@
+import { ExtractedSection, FileExtraction } from "../types";
+import { MIN_TEXT_CHARS_PER_PAGE } from "../constants";
+
+// Same CDN build the importmap in index.html serves pdfjs-dist from; the worker version must match
+const PDF_WORKER_URL = 'https://aistudiocdn.com/pdfjs-dist@^5.6.205/build/pdf.worker.min.mjs';
+
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+type ExtractableKind = 'pdf' | 'docx' | 'txt';
+
+const getExtractableKind = (file: File): ExtractableKind | null => {
+  const name = file.name.toLowerCase();
+  if (file.type === 'application/pdf' || name.endsWith('.pdf')) return 'pdf';
+  if (file.type === DOCX_MIME_TYPE || name.endsWith('.docx')) return 'docx';
+  if (file.type === 'text/plain' || name.endsWith('.txt')) return 'txt';
+  return null;
+};
+
+export const canExtractText = (file: File) => getExtractableKind(file) !== null;
+
+const normalizeWhitespace = (text: string) =>
+  text.replace(/[ \t]+/g, ' ').replace(/ *\n */g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+
+/**
+ * One section per page. pdf.js is loaded on demand since most uploads never need it.
+ */
+const extractPdf = async (file: File): Promise<ExtractedSection[]> => {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = PDF_WORKER_URL;
+
+  const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+  try {
+    const sections: ExtractedSection[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const text = content.items
+        .map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : '') : ''))
+        .join('');
+      sections.push({ text: normalizeWhitespace(text), page: pageNumber });
+    }
+    return sections;
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+/**
+ * One section per heading, so chunks can carry the heading they fall under.
+ */
+const extractDocx = async (file: File): Promise<ExtractedSection[]> => {
+  const mammoth = (await import('mammoth')).default;
+  const { value: html } = await mammoth.convertToHtml({ arrayBuffer: await file.arrayBuffer() });
+
+  const body = new DOMParser().parseFromString(html, 'text/html').body;
+  const sections: ExtractedSection[] = [];
+  let current: ExtractedSection = { text: '' };
+
+  Array.from(body.children).forEach(element => {
+    const text = (element.textContent || '').trim();
+    if (/^H[1-6]$/.test(element.tagName)) {
+      if (current.text.trim()) sections.push(current);
+      current = { text: '', section: text };
+    } else if (text) {
+      current.text += `${text}\n\n`;
+    }
+  });
+  if (current.text.trim()) sections.push(current);
+
+  return sections.map(section => ({ ...section, text: normalizeWhitespace(section.text) }));
+};
+
+/**
+ * Extracts the text of a PDF, DOCX or TXT file in the browser.
+ * A PDF with (almost) no text per page is reported as `empty`: it is most likely
+ * scanned and needs OCR on the workflow side.
+ */
+export const extractDocumentText = async (file: File): Promise<FileExtraction> => {
+  const kind = getExtractableKind(file);
+  if (!kind) return { status: 'unsupported', sections: [], charCount: 0 };
+
+  try {
+    const sections = kind === 'pdf'
+      ? await extractPdf(file)
+      : kind === 'docx'
+        ? await extractDocx(file)
+        : [{ text: normalizeWhitespace(await file.text()) }];
+
+    const charCount = sections.reduce((sum, s) => sum + s.text.length, 0);
+    const pageCount = kind === 'pdf' ? sections.length : undefined;
+    const minChars = MIN_TEXT_CHARS_PER_PAGE * Math.max(1, pageCount ?? 1);
+    const isEmpty = kind === 'pdf' ? charCount < minChars : charCount === 0;
+
+    return {
+      status: isEmpty ? 'empty' : 'done',
+      sections: sections.filter(s => s.text),
+      charCount,
+      pageCount
+    };
+  } catch (error) {
+    console.error(`Failed to extract text from ${file.name}:`, error);
+    return {
+      status: 'error',
+      sections: [],
+      charCount: 0,
+      error: error instanceof Error ? error.message : "Unknown error"
+    };
+  }
+};
@@ -0,0 +1,172 @@
+import { WebhookErrorKind } from "../types";
+
+/**
+ * Extracts a readable message from an N8N error response body.
+ * Falls back to the given description (usually the HTTP status text) if the body is not JSON.
+ */
+export const describeErrorResponse = (bodyText: string, fallback: string): string => {
+  try {
+    const errorJson = JSON.parse(bodyText);
+    // N8N specific error fields
+    return errorJson.errorMessage || errorJson.message || JSON.stringify(errorJson);
+  } catch (e) {
+    // Fallback if response is not JSON
+    return fallback;
+  }
+};
+
+// N8N explains 404s in a `hint`, e.g. "Click the 'Execute workflow' button on the canvas..."
+const getErrorHint = (bodyText: string): string => {
+  try {
+    const hint = JSON.parse(bodyText)?.hint;
+    return typeof hint === 'string' ? hint : '';
+  } catch (e) {
+    return '';
+  }
+};
+
+// --- Error hierarchy ---
+
+/**
+ * Base class for failed webhook calls. `kind` drives the advice shown to the user;
+ * `status` is the HTTP status when N8N (or a proxy in front of it) answered.
+ */
+export class WebhookError extends Error {
+  kind: WebhookErrorKind;
+  status?: number;
+
+  constructor(message: string, kind: WebhookErrorKind = 'http', status?: number) {
+    super(message);
+    this.name = 'WebhookError';
+    this.kind = kind;
+    this.status = status;
+  }
+}
+
+/**
+ * The webhook could not be reached at all (offline, refused connection, CORS, gateway down),
+ * as opposed to the workflow answering with an error. Such requests are safe to queue.
+ */
+export class WebhookUnreachableError extends WebhookError {
+  constructor(message = "Could not reach N8N. Check your connection and the webhook URL.", status?: number) {
+    super(message, 'network', status);
+    this.name = 'WebhookUnreachableError';
+  }
+}
+
+export class WebhookAuthError extends WebhookError {
+  constructor(message: string, status: number) {
+    super(message, 'auth', status);
+    this.name = 'WebhookAuthError';
+  }
+}
+
+export class WebhookNotFoundError extends WebhookError {
+  constructor(message: string, kind: 'not-found' | 'test-webhook-inactive' = 'not-found') {
+    super(message, kind, 404);
+    this.name = 'WebhookNotFoundError';
+  }
+}
+
+export class WorkflowExecutionError extends WebhookError {
+  constructor(message: string, status: number) {
+    super(message, 'workflow', status);
+    this.name = 'WorkflowExecutionError';
+  }
+}
+
+export class WebhookTimeoutError extends WebhookError {
+  constructor(seconds?: number, status?: number) {
+    super(seconds ? `N8N did not respond within ${seconds} seconds.` : "N8N did not respond in time.", 'timeout', status);
+    this.name = 'WebhookTimeoutError';
+  }
+}
+
+export class PayloadTooLargeError extends WebhookError {
+  constructor(message: string) {
+    super(message, 'payload-too-large', 413);
+    this.name = 'PayloadTooLargeError';
+  }
+}
+
+// Statuses a reverse proxy returns while N8N itself is down or restarting
+const GATEWAY_STATUSES = [502, 503, 504];
+
+/**
+ * Turns a non-2xx webhook response into the matching WebhookError subclass.
+ */
+export const classifyErrorResponse = (status: number, bodyText: string, statusText: string, url: string): WebhookError => {
+  const message = describeErrorResponse(bodyText, statusText || `HTTP ${status}`);
+
+  if (GATEWAY_STATUSES.includes(status)) return new WebhookUnreachableError(message, status);
+  if (status === 401 || status === 403) return new WebhookAuthError(message, status);
+  if (status === 404) {
+    const isTestWebhook = url.includes('/webhook-test/') || /execute workflow|test workflow|test mode/i.test(getErrorHint(bodyText));
+    return new WebhookNotFoundError(message, isTestWebhook ? 'test-webhook-inactive' : 'not-found');
+  }
+  if (status === 408) return new WebhookTimeoutError(undefined, status);
+  if (status === 413) return new PayloadTooLargeError(message);
+  if (status >= 500) return new WorkflowExecutionError(message, status);
+  return new WebhookError(message, 'http', status);
+};
+
+export const getErrorKind = (error: unknown): WebhookErrorKind | undefined =>
+  error instanceof WebhookError ? error.kind : undefined;
+
+// --- Advice ---
+
+interface ErrorAdviceRule {
+  kind?: WebhookErrorKind;
+  pattern?: RegExp; // Matched against the error message
+  advice: string;
+}
+
+// First matching rule wins, so message-specific rules come before the generic ones for their kind
+const ERROR_ADVICE_RULES: ErrorAdviceRule[] = [
+  {
+    pattern: /Unused Respond to Webhook node/i,
+    advice: "N8N CONFIG ERROR: Open your N8N Webhook Node and change 'Respond' to 'Using Respond to Webhook Node'."
+  },
+  {
+    pattern: /Workflow could not be started/i,
+    advice: "N8N could not start the workflow. Open its Executions list in N8N to see which node failed to initialize."
+  },
+  {
+    kind: 'network',
+    advice: "Check the webhook URL and that N8N is running. If it is, the browser may be blocking the reply: add this site to the Webhook node's 'Allowed Origins (CORS)' option."
+  },
+  {
+    kind: 'auth',
+    advice: "N8N rejected the credentials. Compare this profile's Authentication settings with the Webhook node's 'Authentication' option and credential."
+  },
+  {
+    kind: 'test-webhook-inactive',
+    advice: "Test URLs (/webhook-test/) only accept one call after you click 'Execute workflow' in the editor. Click it again, or activate the workflow and use the production URL (/webhook/)."
+  },
+  {
+    kind: 'not-found',
+    advice: "The webhook is not registered. Activate the workflow, and check that the URL path and the HTTP method (POST) match the Webhook node."
+  },
+  {
+    kind: 'workflow',
+    advice: "The workflow failed while running. Open its Executions list in N8N to find the failing node and its error."
+  },
+  {
+    kind: 'timeout',
+    advice: "Make long-running workflows answer early with a Respond to Webhook node before the slow steps, or raise the timeout in Settings."
+  },
+  {
+    kind: 'payload-too-large',
+    advice: "The request is larger than N8N accepts. Raise N8N_PAYLOAD_SIZE_MAX on the N8N server (and client_max_body_size on an nginx proxy), or send smaller files."
+  }
+];
+
+/**
+ * Looks up an actionable, N8N-specific fix for a failed request.
+ */
+export const getErrorAdvice = (kind: WebhookErrorKind | undefined, message: string): string | null => {
+  const rule = ERROR_ADVICE_RULES.find(r =>
+    (!r.kind || r.kind === kind) && (!r.pattern || r.pattern.test(message))
+  );
+  return rule?.advice ?? null;
+};
@@ -0,0 +1,17 @@
+import { FeedbackRequest, WebhookConfig } from "../types";
+import { postJson } from "./jsonWebhook";
+
+/**
+ * Posts an answer rating to the feedback webhook. Any reply counts as accepted.
+ */
+export const submitFeedback = async (config: WebhookConfig, feedback: Omit<FeedbackRequest, 'action' | 'ratedAt'>): Promise<void> => {
+  if (!config.feedbackUrl) throw new Error("Feedback Webhook URL is not configured.");
+
+  const payload: FeedbackRequest = { action: 'feedback', ...feedback, ratedAt: new Date().toISOString() };
+  try {
+    await postJson<unknown>(config, config.feedbackUrl, payload, false);
+  } catch (error) {
+    console.error("Failed to send feedback to N8N:", error);
+    throw error;
+  }
+};
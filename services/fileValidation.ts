@@ -0,0 +1,232 @@
+import { FileUploadItem, SUPPORTED_MIME_TYPES, UploadLimits } from "../types";
+import { LOCAL_STORAGE_INGESTED_HASHES_KEY, MAX_HASHED_FILE_SIZE_MB, MAX_INGESTED_HASHES } from "../constants";
+
+type SupportedMimeType = keyof typeof SUPPORTED_MIME_TYPES;
+
+export interface ValidatedFile {
+  file: File;   // Relabelled with the sniffed type when the browser's guess was wrong
+  hash?: string;
+  error?: string; // Why the file is not accepted
+}
+
+interface IngestedHash {
+  hash: string;
+  name: string;
+  profileId: string;
+  ingestedAt: number;
+}
+
+// Bytes read for magic-number sniffing
+const SNIFF_BYTES = 4096;
+
+// Used when the browser reports no MIME type (common with drag-drop from some apps)
+const EXTENSION_TYPES: Record<string, SupportedMimeType> = {
+  pdf: 'application/pdf',
+  txt: 'text/plain',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  doc: 'application/msword',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  m4a: 'audio/mp4',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  csv: 'text/csv',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  json: 'application/json'
+};
+
+// No signature to sniff; only accepted when the declared type or extension says so
+const TEXT_TYPES: SupportedMimeType[] = ['text/plain', 'text/csv', 'application/json'];
+
+const hasBytes = (header: Uint8Array, bytes: number[], offset = 0) =>
+  bytes.every((byte, i) => header[offset + i] === byte);
+
+const hasAscii = (header: Uint8Array, text: string, offset = 0) =>
+  hasBytes(header, Array.from(text, c => c.charCodeAt(0)), offset);
+
+const containsAscii = (header: Uint8Array, text: string) =>
+  new TextDecoder('latin1').decode(header).includes(text);
+
+const isRiff = (header: Uint8Array, form: string) => hasAscii(header, 'RIFF') && hasAscii(header, form, 8);
+const isIsoMedia = (header: Uint8Array) => hasAscii(header, 'ftyp', 4);
+const isEbml = (header: Uint8Array) => hasBytes(header, [0x1a, 0x45, 0xdf, 0xa3]);
+const isZip = (header: Uint8Array) => hasBytes(header, [0x50, 0x4b, 0x03, 0x04]);
+
+// Plain text has no signature; binary content almost always contains NUL bytes early on
+const isText = (header: Uint8Array) =>
+  hasBytes(header, [0xff, 0xfe]) || hasBytes(header, [0xfe, 0xff]) || !header.includes(0);
+
+const isJson = (header: Uint8Array) =>
+  isText(header) && /^(\ufeff)?\s*[[{]/.test(new TextDecoder().decode(header.subarray(0, 64)));
+
+/**
+ * What the first bytes of each supported type look like. WebM and MP4 containers
+ * cannot tell audio from video here, so both variants accept the same signature.
+ */
+const CONTENT_SIGNATURES: Record<SupportedMimeType, (header: Uint8Array) => boolean> = {
+  'application/pdf': header => containsAscii(header.subarray(0, 1024), '%PDF-'),
+  'text/plain': isText,
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': header =>
+    isZip(header) && (containsAscii(header, 'word/') || (containsAscii(header, '[Content_Types].xml') && !containsAscii(header, 'xl/'))),
+  'application/msword': header => hasBytes(header, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]),
+  'image/png': header => hasBytes(header, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  'image/jpeg': header => hasBytes(header, [0xff, 0xd8, 0xff]),
+  'image/webp': header => isRiff(header, 'WEBP'),
+  'audio/mpeg': header => hasAscii(header, 'ID3') || (header[0] === 0xff && (header[1] & 0xe0) === 0xe0),
+  'audio/wav': header => isRiff(header, 'WAVE'),
+  'audio/webm': isEbml,
+  'audio/ogg': header => hasAscii(header, 'OggS'),
+  'audio/mp4': isIsoMedia,
+  'video/mp4': isIsoMedia,
+  'video/webm': isEbml,
+  'text/csv': isText,
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': header =>
+    isZip(header) && containsAscii(header, 'xl/'),
+  'application/json': isJson
+};
+
+const isSupportedType = (type: string): type is SupportedMimeType => type in CONTENT_SIGNATURES;
+
+const getExtension = (name: string) => name.includes('.') ? name.split('.').pop()!.toLowerCase() : '';
+
+export const getUploadType = (file: File): FileUploadItem['type'] => {
+  if (file.type.startsWith('image/')) return 'image';
+  if (file.type.startsWith('video/')) return 'video';
+  if (file.type.startsWith('audio/')) return 'audio';
+  return 'document';
+};
+
+const formatMb = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+/**
+ * Works out the real type from the file's first bytes. Prefers the declared type when the
+ * content fits it; text types are only assumed when declared, since they have no signature.
+ */
+const sniffType = async (file: File, declared: string): Promise<SupportedMimeType | undefined> => {
+  const header = new Uint8Array(await file.slice(0, SNIFF_BYTES).arrayBuffer());
+  if (isSupportedType(declared) && CONTENT_SIGNATURES[declared](header)) return declared;
+  return (Object.keys(CONTENT_SIGNATURES) as SupportedMimeType[])
+    .filter(type => !TEXT_TYPES.includes(type))
+    .find(type => CONTENT_SIGNATURES[type](header));
+};
+
+/**
+ * Hex SHA-256 of the file content. Undefined outside secure contexts (no SubtleCrypto)
+ * and for files above MAX_HASHED_FILE_SIZE_MB.
+ */
+export const hashFile = async (file: File): Promise<string | undefined> => {
+  if (!crypto.subtle || file.size > MAX_HASHED_FILE_SIZE_MB * 1024 * 1024) return undefined;
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// --- Ingested hashes (localStorage) ---
+
+const loadIngestedHashes = (): IngestedHash[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(LOCAL_STORAGE_INGESTED_HASHES_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+/**
+ * Remembers files that reached the ingestion webhook, so adding them again for the same profile is flagged.
+ */
+export const recordIngestedFiles = (profileId: string, files: { name: string; hash?: string }[]) => {
+  const ingestedAt = Date.now();
+  const added = files
+    .filter((f): f is { name: string; hash: string } => !!f.hash)
+    .map(f => ({ hash: f.hash, name: f.name, profileId, ingestedAt }));
+  if (added.length === 0) return;
+  const kept = loadIngestedHashes().filter(h => !added.some(a => a.hash === h.hash && a.profileId === h.profileId));
+  localStorage.setItem(LOCAL_STORAGE_INGESTED_HASHES_KEY, JSON.stringify([...kept, ...added].slice(-MAX_INGESTED_HASHES)));
+};
+
+// --- Validation ---
+
+const getSizeLimitMb = (type: FileUploadItem['type'], limits: UploadLimits) => {
+  switch (type) {
+    case 'image': return { limit: limits.maxImageMb, label: 'images' };
+    case 'audio': return { limit: limits.maxAudioMb, label: 'audio' };
+    case 'video': return { limit: limits.maxVideoMb, label: 'videos' };
+    default: return { limit: limits.maxDocumentMb, label: 'documents' };
+  }
+};
+
+const isSameFile = (a: File, b: File) => a.name === b.name && a.size === b.size && a.lastModified === b.lastModified;
+
+/**
+ * Checks files being added to the Upload tab: real type by content, per-type size limits,
+ * duplicates (within the list and against files already ingested for the profile) and batch quotas.
+ * `accepted` are the files already in the list that passed validation.
+ */
+export const validateFiles = async (
+  files: File[],
+  accepted: FileUploadItem[],
+  limits: UploadLimits,
+  profileId: string
+): Promise<ValidatedFile[]> => {
+  const ingested = loadIngestedHashes().filter(h => h.profileId === profileId);
+  const batch = accepted.map(item => ({ file: item.file, hash: item.hash }));
+  let batchBytes = batch.reduce((sum, item) => sum + item.file.size, 0);
+  const results: ValidatedFile[] = [];
+
+  // One file at a time: hashing reads the whole file into memory
+  for (const original of files) {
+    const reject = (error: string) => { results.push({ file: original, error }); };
+    // Windows reports CSV files as application/vnd.ms-excel, so unsupported types fall back to the extension
+    const declared = isSupportedType(original.type) ? original.type : EXTENSION_TYPES[getExtension(original.name)] || original.type;
+
+    if (original.size === 0) { reject('The file is empty.'); continue; }
+
+    const sniffed = await sniffType(original, declared);
+    if (!sniffed) {
+      reject(isSupportedType(declared)
+        ? `The content is not a valid ${SUPPORTED_MIME_TYPES[declared]} file. It may be corrupt or renamed.`
+        : `Unsupported file type${getExtension(original.name) ? ` (.${getExtension(original.name)})` : ''}.`);
+      continue;
+    }
+    const file = sniffed === original.type
+      ? original
+      : new File([original], original.name, { type: sniffed, lastModified: original.lastModified });
+
+    const { limit, label } = getSizeLimitMb(getUploadType(file), limits);
+    if (limit > 0 && file.size > limit * 1024 * 1024) {
+      reject(`${formatMb(file.size)} is over the ${limit} MB limit for ${label}.`);
+      continue;
+    }
+
+    const hash = await hashFile(file);
+    const duplicate = batch.find(item => hash && item.hash ? item.hash === hash : isSameFile(item.file, file));
+    if (duplicate) {
+      reject(`Duplicate of ${duplicate.file.name === file.name ? 'a file' : `"${duplicate.file.name}"`} already in the list.`);
+      continue;
+    }
+    const previous = hash ? ingested.find(h => h.hash === hash) : undefined;
+    if (previous) {
+      reject(`Already ingested${previous.name !== file.name ? ` as "${previous.name}"` : ''} on ${new Date(previous.ingestedAt).toLocaleDateString()}.`);
+      continue;
+    }
+
+    if (limits.maxBatchFiles > 0 && batch.length >= limits.maxBatchFiles) {
+      reject(`The batch is limited to ${limits.maxBatchFiles} files. Upload these first, then add more.`);
+      continue;
+    }
+    if (limits.maxBatchMb > 0 && batchBytes + file.size > limits.maxBatchMb * 1024 * 1024) {
+      reject(`Adding it would take the batch over ${limits.maxBatchMb} MB. Upload these first, then add more.`);
+      continue;
+    }
+
+    batch.push({ file, hash });
+    batchBytes += file.size;
+    results.push({ file, hash });
+  }
+  return results;
+};
@@ -0,0 +1,117 @@
+import { ChatMessage, HistoryOptions, MessageRole } from "../types";
+
+export interface HistoryEntry {
+  role: MessageRole;
+  content: string;
+}
+
+export interface HistoryWindow {
+  entries: HistoryEntry[];  // What goes into the `history` field
+  sentCount: number;        // Conversation messages included (the summary not counted)
+  totalCount: number;       // Conversation messages before any filtering
+  estimatedTokens: number;
+  summarized: boolean;
+}
+
+// Role markers and separators most chat formats add around each message
+const MESSAGE_OVERHEAD_TOKENS = 4;
+// Caps the condensed summary of dropped turns
+const SUMMARY_MAX_TOKENS = 300;
+const SUMMARY_USER_CHARS = 120;
+const SUMMARY_ASSISTANT_CHARS = 200;
+
+/**
+ * Approximates a BPE tokenizer: words split into ~4 character pieces,
+ * every punctuation mark or symbol counts as a token of its own.
+ */
+export const estimateTokens = (text: string): number => {
+  const pieces: string[] = text.match(/[\p{L}\p{N}_]+|[^\s\p{L}\p{N}_]/gu) ?? [];
+  return pieces.reduce((sum, piece) => sum + Math.max(1, Math.ceil(piece.length / 4)), 0);
+};
+
+const estimateEntryTokens = (entry: HistoryEntry) => estimateTokens(entry.content) + MESSAGE_OVERHEAD_TOKENS;
+
+// A turn starts at a user message and includes the replies that follow it
+const groupTurns = (messages: HistoryEntry[]): HistoryEntry[][] =>
+  messages.reduce<HistoryEntry[][]>((turns, message) => {
+    if (message.role === MessageRole.USER || turns.length === 0) turns.push([message]);
+    else turns[turns.length - 1].push(message);
+    return turns;
+  }, []);
+
+const clip = (text: string, maxChars: number) => {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > maxChars ? `${flat.slice(0, maxChars).trimEnd()}…` : flat;
+};
+
+/**
+ * Condenses dropped turns into one system message, most recent turns first to survive the cap.
+ */
+const summarizeTurns = (turns: HistoryEntry[][]): HistoryEntry => {
+  const lines: string[] = [];
+  let tokens = 0;
+  for (const turn of [...turns].reverse()) {
+    const line = turn
+      .map(m => `${m.role === MessageRole.USER ? 'User' : 'Assistant'}: ${clip(m.content, m.role === MessageRole.USER ? SUMMARY_USER_CHARS : SUMMARY_ASSISTANT_CHARS)}`)
+      .join(' / ');
+    tokens += estimateTokens(line);
+    if (tokens > SUMMARY_MAX_TOKENS && lines.length > 0) break;
+    lines.unshift(`- ${line}`);
+  }
+  const omitted = turns.length - lines.length;
+  return {
+    role: MessageRole.SYSTEM,
+    content: `Summary of earlier conversation${omitted > 0 ? ` (${omitted} older turn(s) omitted)` : ''}:\n${lines.join('\n')}`
+  };
+};
+
+/**
+ * Picks the earlier messages sent as `history` with a chat request, according to the profile's strategy.
+ */
+export const buildHistoryWindow = (messages: ChatMessage[], options: HistoryOptions): HistoryWindow => {
+  const candidates: HistoryEntry[] = messages
+    .filter(m => !m.isStreaming && m.content.trim())
+    .filter(m => !(options.excludeErrors && m.isError))
+    .filter(m => !(options.excludeSystem && m.role === MessageRole.SYSTEM))
+    .map(m => ({ role: m.role, content: m.content }));
+
+  const turns = groupTurns(candidates);
+  let kept: HistoryEntry[][];
+  switch (options.strategy) {
+    case 'none':
+      kept = [];
+      break;
+    case 'turns':
+      kept = turns.slice(Math.max(0, turns.length - Math.max(0, options.maxTurns)));
+      break;
+    case 'tokens': {
+      // Whole turns, newest first, while they fit in the budget
+      kept = [];
+      let budget = options.maxTokens;
+      for (let i = turns.length - 1; i >= 0; i--) {
+        const cost = turns[i].reduce((sum, entry) => sum + estimateEntryTokens(entry), 0);
+        if (cost > budget) break;
+        budget -= cost;
+        kept.unshift(turns[i]);
+      }
+      break;
+    }
+    default:
+      kept = turns;
+  }
+
+  const entries = kept.flat();
+  const dropped = turns.slice(0, turns.length - kept.length);
+  const summarized = options.summarize && options.strategy !== 'none' && dropped.length > 0;
+  if (summarized) {
+    entries.unshift(summarizeTurns(dropped));
+  }
+
+  return {
+    entries,
+    sentCount: kept.reduce((sum, turn) => sum + turn.length, 0),
+    totalCount: messages.length,
+    estimatedTokens: entries.reduce((sum, entry) => sum + estimateEntryTokens(entry), 0),
+    summarized
+  };
+};
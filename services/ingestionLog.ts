@@ -0,0 +1,167 @@
+import {
+  ColumnRole,
+  FileUploadStatus,
+  IngestionBatchResult,
+  IngestionLogEntry,
+  IngestionLogFile,
+  IngestionLogOutcome,
+  IngestionLogUrl,
+  UrlIngestionOutcome,
+  WebhookProfile
+} from "../types";
+import { MAX_INGESTION_LOG_ENTRIES, MAX_LOGGED_RESPONSE_CHARS, MAX_RETAINED_BATCH_MB, MAX_RETAINED_BATCHES } from "../constants";
+import { deleteRecord, getAllRecords, getRecord, putRecord, STORES } from "./db";
+import { getOutcomeStatus, isFileDelivered, isFileFailed } from "./ingestionResults";
+import { UrlSource } from "./urlIngestion";
+
+export interface LoggedBatch {
+  batchId: string;
+  startedAt: number;
+  profile: WebhookProfile;
+  textContext: string;
+  files: File[];
+  hashes?: (string | undefined)[];
+  mappings?: (ColumnRole[] | undefined)[]; // Column mapping of the files sent as records
+  urls?: UrlSource[];
+  rerunOf?: string;
+}
+
+// How the request ended; `result` when N8N answered, even if some files failed
+export type BatchEnd =
+  | { result: IngestionBatchResult; urlResults?: UrlIngestionOutcome[] }
+  | { queued: true; error?: string }
+  | { cancelled: true }
+  | { error: string };
+
+const truncate = (text?: string) =>
+  text && text.length > MAX_LOGGED_RESPONSE_CHARS ? `${text.slice(0, MAX_LOGGED_RESPONSE_CHARS)}…` : text;
+
+const summarizeOutcome = (items: { status: FileUploadStatus }[]): IngestionLogOutcome => {
+  if (items.every(f => isFileDelivered(f.status))) return 'success';
+  if (items.some(f => f.status === 'queued') && !items.some(f => isFileFailed(f.status))) return 'queued';
+  return items.some(f => isFileDelivered(f.status)) ? 'partial' : 'failed';
+};
+
+const applyResult = (file: IngestionLogFile, outcome: IngestionBatchResult['files'][number]): IngestionLogFile => ({
+  ...file,
+  // Unreachable files are moved to the outbox
+  status: outcome.errorKind === 'network' ? 'queued' : getOutcomeStatus(outcome),
+  chunks: outcome.result?.chunks,
+  error: outcome.error ?? outcome.result?.error
+});
+
+/**
+ * Builds the log record for a finished, queued or cancelled ingestion batch.
+ */
+export const createIngestionLogEntry = (batch: LoggedBatch, end: BatchEnd): IngestionLogEntry => {
+  let files: IngestionLogFile[] = batch.files.map((file, i) => ({
+    name: file.name,
+    type: file.type,
+    size: file.size,
+    hash: batch.hashes?.[i],
+    mapping: batch.mappings?.[i],
+    status: 'queued' in end ? 'queued' : 'error' in end ? 'error' : 'pending'
+  }));
+
+  let urls: IngestionLogUrl[] | undefined = batch.urls?.map(source => ({
+    ...source,
+    status: 'error' in end ? 'error' : 'pending'
+  }));
+
+  let outcome: IngestionLogOutcome;
+  let responseText: string | undefined;
+  if ('result' in end) {
+    files = files.map((file, i) => {
+      const fileOutcome = end.result.files.find(o => o.index === i);
+      return fileOutcome ? applyResult(file, fileOutcome) : file;
+    });
+    urls = urls?.map((url, i) => {
+      const urlOutcome = end.urlResults?.find(o => o.index === i);
+      return urlOutcome
+        ? { ...url, status: getOutcomeStatus(urlOutcome), pages: urlOutcome.pages, error: urlOutcome.error ?? urlOutcome.result?.error }
+        : url;
+    });
+    outcome = summarizeOutcome([...files, ...(urls ?? [])]);
+    responseText = end.result.responseText ?? [...end.result.files, ...(end.urlResults ?? [])].find(o => o.responseText)?.responseText;
+  } else {
+    outcome = 'queued' in end ? 'queued' : 'cancelled' in end ? 'cancelled' : 'failed';
+  }
+
+  const totalBytes = batch.files.reduce((sum, file) => sum + file.size, 0);
+  const retain = batch.profile.ingestionLog.retainFiles && batch.files.length > 0 && totalBytes <= MAX_RETAINED_BATCH_MB * 1024 * 1024;
+  return {
+    id: batch.batchId,
+    startedAt: batch.startedAt,
+    durationMs: Date.now() - batch.startedAt,
+    profileId: batch.profile.id,
+    profileName: batch.profile.name,
+    ingestionUrl: batch.profile.ingestionUrl,
+    textContext: batch.textContext,
+    files,
+    urls,
+    outcome,
+    responseText: truncate(responseText),
+    error: 'error' in end ? end.error : undefined,
+    retainedFiles: retain ? batch.files : undefined,
+    rerunOf: batch.rerunOf
+  };
+};
+
+/**
+ * Whether the batch can be sent again: files are only available when copies were kept,
+ * web pages are fetched by the workflow and can always be sent again.
+ */
+export const canRerun = (entry: IngestionLogEntry) =>
+  entry.files.length === 0 ? !!entry.textContext.trim() || !!entry.urls?.length : !!entry.retainedFiles?.length;
+
+/**
+ * Loads the log, newest first.
+ */
+export const loadIngestionLog = async (): Promise<IngestionLogEntry[]> => {
+  const entries = await getAllRecords<IngestionLogEntry>(STORES.INGESTION_LOG);
+  return entries.sort((a, b) => b.startedAt - a.startedAt);
+};
+
+/**
+ * Saves an entry and prunes old ones. Resolves with the whole log, newest first.
+ */
+export const saveIngestionLogEntry = async (entry: IngestionLogEntry): Promise<IngestionLogEntry[]> => {
+  await putRecord(STORES.INGESTION_LOG, entry);
+  const entries = await loadIngestionLog();
+
+  const dropped = entries.slice(MAX_INGESTION_LOG_ENTRIES);
+  await Promise.all(dropped.map(e => deleteRecord(STORES.INGESTION_LOG, e.id)));
+  const kept = entries.slice(0, MAX_INGESTION_LOG_ENTRIES);
+
+  const expired = kept.filter(e => e.retainedFiles).slice(MAX_RETAINED_BATCHES);
+  await Promise.all(expired.map(e => putRecord(STORES.INGESTION_LOG, { ...e, retainedFiles: undefined })));
+  return kept.map(e => expired.includes(e) ? { ...e, retainedFiles: undefined } : e);
+};
+
+export const deleteIngestionLogEntry = (id: string): Promise<void> =>
+  deleteRecord(STORES.INGESTION_LOG, id);
+
+/**
+ * Updates the batch's record once the outbox delivered (part of) it. Outbox entries keep
+ * the original idempotency keys, `<batchId>:<index>`, which locate each file in the record.
+ */
+export const recordOutboxDelivery = async (
+  batchId: string,
+  idempotencyKeys: string[],
+  result: IngestionBatchResult
+): Promise<IngestionLogEntry[] | undefined> => {
+  const entry = await getRecord<IngestionLogEntry>(STORES.INGESTION_LOG, batchId);
+  if (!entry) return undefined;
+
+  const files = entry.files.map((file, i) => {
+    const keyIndex = idempotencyKeys.findIndex(key => key === `${batchId}:${i}`);
+    const fileOutcome = result.files.find(o => o.index === keyIndex);
+    return keyIndex !== -1 && fileOutcome ? applyResult(file, fileOutcome) : file;
+  });
+  return saveIngestionLogEntry({
+    ...entry,
+    files,
+    outcome: files.length > 0 ? summarizeOutcome([...files, ...(entry.urls ?? [])]) : 'success',
+    responseText: entry.responseText ?? truncate(result.responseText ?? result.files.find(o => o.responseText)?.responseText)
+  });
+};
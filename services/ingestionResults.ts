@@ -0,0 +1,79 @@
+import { FileUploadOutcome, FileUploadStatus, IngestionFileResult } from "../types";
+import { isRecord } from "../utils/json";
+
+// Accept the status words commonly produced by N8N templates
+const STATUS_ALIASES: Record<string, IngestionFileResult['status']> = {
+  indexed: 'indexed',
+  success: 'success',
+  ok: 'success',
+  done: 'success',
+  processing: 'processing',
+  queued: 'processing',
+  pending: 'processing',
+  rejected: 'rejected',
+  skipped: 'rejected',
+  unsupported: 'rejected',
+  error: 'error',
+  failed: 'error'
+};
+
+/**
+ * Reads a status word from a workflow reply. Only known words map to a specific state;
+ * anything else (or no word at all) counts as a plain success, not as indexed.
+ */
+export const parseResultStatus = (status: unknown): IngestionFileResult['status'] => {
+  const word = typeof status === 'string' ? status.trim().toLowerCase() : '';
+  return Object.hasOwn(STATUS_ALIASES, word) ? STATUS_ALIASES[word] : 'success';
+};
+
+/**
+ * Extracts per-file results from an ingestion webhook response.
+ * Tolerates the array wrapper N8N adds when responding with all items.
+ */
+export const parseIngestionResponse = (responseText?: string): IngestionFileResult[] => {
+  if (!responseText) return [];
+  let data: unknown;
+  try {
+    data = JSON.parse(responseText);
+  } catch (e) {
+    return [];
+  }
+
+  const body = Array.isArray(data) ? data[0] : data;
+  if (!isRecord(body) || !Array.isArray(body.files)) return [];
+
+  return body.files
+    .filter((f): f is Record<string, unknown> & { key: string } => isRecord(f) && typeof f.key === 'string')
+    .map((f): IngestionFileResult => ({
+      key: f.key,
+      status: parseResultStatus(f.status),
+      chunks: typeof f.chunks === 'number' ? f.chunks : undefined,
+      error: [f.error, f.reason].find((e): e is string => typeof e === 'string' && e !== '')
+    }));
+};
+
+/**
+ * Finds the result for a file. Each upload request carries a single `file_0`,
+ * but workflows may also answer with the file's position in the batch.
+ */
+export const matchFileResult = (results: IngestionFileResult[], batchIndex: number): IngestionFileResult | undefined =>
+  results.find(r => r.key === `file_${batchIndex}`) ??
+  results.find(r => r.key === 'file_0') ??
+  (results.length === 1 ? results[0] : undefined);
+
+/**
+ * Maps a finished upload to the status shown in the file list.
+ */
+export const getOutcomeStatus = (outcome: FileUploadOutcome): FileUploadStatus => {
+  if (!outcome.ok) return 'error';
+  return outcome.result?.status ?? 'success';
+};
+
+/**
+ * Files in these states reached N8N and are not sent again.
+ */
+export const isFileDelivered = (status: FileUploadStatus) =>
+  status === 'success' || status === 'indexed' || status === 'processing';
+
+export const isFileFailed = (status: FileUploadStatus) =>
+  status === 'error' || status === 'rejected';
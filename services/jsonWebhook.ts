@@ -0,0 +1,48 @@
+import { WebhookConfig } from "../types";
+import { createRequestTimer } from "../utils/timeout";
+import { prepareWebhookRequest } from "./webhookAuth";
+import { classifyErrorResponse, WebhookTimeoutError, WebhookUnreachableError } from "./errors";
+
+/**
+ * POSTs a JSON payload to a webhook (knowledge base, feedback) and returns the parsed reply.
+ * With `requireJson` off, a non-JSON reply resolves to undefined instead of failing.
+ * Aborting `signal` rejects with an AbortError.
+ */
+export const postJson = async <T>(
+  config: WebhookConfig,
+  url: string,
+  payload: object,
+  requireJson = true,
+  signal?: AbortSignal
+): Promise<T | undefined> => {
+  const request = await prepareWebhookRequest(config, JSON.stringify(payload));
+  const timer = createRequestTimer(config.timeouts.requestSeconds, signal);
+  let response: Response;
+  let responseText: string;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { ...request.headers, 'Content-Type': 'application/json' },
+      body: request.body,
+      signal: timer.signal,
+    });
+    responseText = await response.text();
+  } catch (error) {
+    if (timer.timedOut()) throw new WebhookTimeoutError(config.timeouts.requestSeconds);
+    if (error instanceof TypeError) throw new WebhookUnreachableError();
+    throw error;
+  } finally {
+    timer.clear();
+  }
+
+  if (!response.ok) {
+    throw classifyErrorResponse(response.status, responseText, response.statusText, url);
+  }
+
+  try {
+    return JSON.parse(responseText) as T;
+  } catch (e) {
+    if (!requireJson) return undefined;
+    throw new Error("The workflow did not return JSON. Set the Respond to Webhook node to respond with JSON.");
+  }
+};
@@ -0,0 +1,96 @@
+import {
+  DeleteDocumentRequest,
+  DeleteDocumentResponse,
+  KnowledgeDocument,
+  ListDocumentsRequest,
+  ListDocumentsResponse,
+  ReingestDocumentRequest,
+  WebhookConfig
+} from "../types";
+import { KNOWLEDGE_BASE_PAGE_SIZE } from "../constants";
+import { createId } from "../utils/id";
+import { isRecord } from "../utils/json";
+import { postJson } from "./jsonWebhook";
+
+// N8N wraps the reply in an array when responding with all incoming items
+const unwrapFirstItem = (data: unknown): unknown => (Array.isArray(data) ? data[0] : data);
+
+const firstString = (...values: unknown[]): string | undefined =>
+  values.find((v): v is string => typeof v === 'string' && v.trim() !== '');
+
+const readId = (value: unknown) => typeof value === 'number' ? String(value) : firstString(value);
+
+// Rows without an id cannot be deleted or re-ingested, so they are left out
+const normalizeDocument = (raw: Record<string, unknown>): KnowledgeDocument[] => {
+  const id = readId(raw.id) ?? readId(raw.documentId) ?? firstString(raw.name);
+  if (id === undefined) return [];
+  return [{
+    id,
+    name: firstString(raw.name, raw.fileName) ?? 'Untitled',
+    type: firstString(raw.type, raw.mimeType) ?? '',
+    size: Number(raw.size) || 0,
+    ingestedAt: firstString(raw.ingestedAt, raw.createdAt) ?? '',
+    chunks: Number(raw.chunks) || 0,
+    batchId: firstString(raw.batchId),
+    metadata: isRecord(raw.metadata) ? raw.metadata : undefined
+  }];
+};
+
+/**
+ * Lists the documents the workflow has ingested.
+ * Accepts `{ documents: [...] }` or a bare array of documents.
+ */
+export const listDocuments = async (config: WebhookConfig, search?: string): Promise<ListDocumentsResponse> => {
+  if (!config.listDocumentsUrl) throw new Error("List Documents Webhook URL is not configured.");
+
+  const payload: ListDocumentsRequest = { action: 'list', search, offset: 0, limit: KNOWLEDGE_BASE_PAGE_SIZE };
+  try {
+    const reply = await postJson<unknown>(config, config.listDocumentsUrl, payload);
+    const data = Array.isArray(reply) && isRecord(reply[0]) && Array.isArray(reply[0].documents) ? reply[0] : reply;
+    const rawDocuments: unknown[] = Array.isArray(data) ? data : isRecord(data) && Array.isArray(data.documents) ? data.documents : [];
+    return {
+      documents: rawDocuments.filter(isRecord).flatMap(normalizeDocument),
+      total: isRecord(data) && typeof data.total === 'number' ? data.total : undefined
+    };
+  } catch (error) {
+    console.error("Failed to list documents from N8N:", error);
+    throw error;
+  }
+};
+
+/**
+ * Asks the workflow to delete a document and all of its chunks.
+ */
+export const deleteDocument = async (config: WebhookConfig, documentId: string): Promise<DeleteDocumentResponse> => {
+  if (!config.deleteDocumentUrl) throw new Error("Delete Document Webhook URL is not configured.");
+
+  const payload: DeleteDocumentRequest = { action: 'delete', documentId };
+  try {
+    const data = unwrapFirstItem(await postJson<unknown>(config, config.deleteDocumentUrl, payload));
+    if (isRecord(data) && data.success === false) {
+      throw new Error(firstString(data.error) ?? "The workflow could not delete the document.");
+    }
+    return {
+      success: true,
+      deletedChunks: isRecord(data) && typeof data.deletedChunks === 'number' ? data.deletedChunks : undefined
+    };
+  } catch (error) {
+    console.error("Failed to delete document in N8N:", error);
+    throw error;
+  }
+};
+
+/**
+ * Asks the ingestion workflow to rebuild a document's chunks.
+ */
+export const reingestDocument = async (config: WebhookConfig, documentId: string): Promise<void> => {
+  if (!config.ingestionUrl) throw new Error("Ingestion Webhook URL is not configured.");
+
+  const payload: ReingestDocumentRequest = { action: 'reingest', documentId, batchId: createId() };
+  try {
+    await postJson<unknown>(config, config.ingestionUrl, payload, false);
+  } catch (error) {
+    console.error("Failed to re-ingest document in N8N:", error);
+    throw error;
+  }
+};
@@ -0,0 +1,202 @@
+import { MediaOptions } from "../types";
+
+// Formats the canvas can re-encode; GIF (animation) and SVG (vector) are left alone
+const RESIZABLE_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+// JPEG segments that carry EXIF/XMP (APP1) and IPTC (APP13), both of which may hold GPS data
+const JPEG_METADATA_MARKERS = [0xe1, 0xed];
+const JPEG_START_OF_SCAN = 0xda;
+const PNG_METADATA_CHUNKS = ['eXIf', 'tEXt', 'iTXt', 'zTXt'];
+const EXIF_ORIENTATION_TAG = 0x0112;
+
+// Seconds into a video the thumbnail is taken from, unless the video is shorter
+const THUMBNAIL_SEEK_SECONDS = 1;
+const THUMBNAIL_WIDTH = 320;
+
+const readAscii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+/**
+ * Reads the EXIF orientation (1 = upright) from an APP1 segment body, if present.
+ */
+const readExifOrientation = (segment: Uint8Array): number | undefined => {
+  if (readAscii(segment, 0, 6) !== 'Exif\0\0') return undefined;
+  const view = new DataView(segment.buffer, segment.byteOffset + 6, segment.byteLength - 6);
+  const littleEndian = view.getUint16(0) === 0x4949;
+  const ifdOffset = view.getUint32(4, littleEndian);
+  const entries = view.getUint16(ifdOffset, littleEndian);
+  for (let i = 0; i < entries; i++) {
+    const entry = ifdOffset + 2 + i * 12;
+    if (view.getUint16(entry, littleEndian) === EXIF_ORIENTATION_TAG) {
+      return view.getUint16(entry + 8, littleEndian);
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Drops metadata segments from a JPEG without re-encoding it. Returns null when the
+ * image relies on EXIF orientation, since removing it would show the photo rotated.
+ */
+const stripJpegMetadata = (bytes: Uint8Array): Uint8Array | null => {
+  const kept: Uint8Array[] = [bytes.subarray(0, 2)];
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === JPEG_START_OF_SCAN) break;
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const segment = bytes.subarray(offset, offset + 2 + length);
+    if (JPEG_METADATA_MARKERS.includes(marker)) {
+      const orientation = marker === 0xe1 ? readExifOrientation(segment.subarray(4)) : undefined;
+      if (orientation !== undefined && orientation !== 1) return null;
+    } else {
+      kept.push(segment);
+    }
+    offset += 2 + length;
+  }
+  kept.push(bytes.subarray(offset));
+  return concatBytes(kept);
+};
+
+const stripPngMetadata = (bytes: Uint8Array): Uint8Array => {
+  const kept: Uint8Array[] = [bytes.subarray(0, 8)];
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 8;
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const chunkEnd = offset + 12 + length; // length + type + data + CRC
+    if (!PNG_METADATA_CHUNKS.includes(readAscii(bytes, offset + 4, 4))) {
+      kept.push(bytes.subarray(offset, chunkEnd));
+    }
+    offset = chunkEnd;
+  }
+  return concatBytes(kept);
+};
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => { result.set(part, offset); offset += part.length; });
+  return result;
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number) =>
+  new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Could not encode the image.")), type, quality));
+
+/**
+ * Redraws an image, scaled so its longest side is at most `maxDimension`.
+ * Drawing applies the EXIF orientation and leaves every metadata segment behind.
+ */
+const reencodeImage = async (file: File, maxDimension: number, quality: number): Promise<File> => {
+  const bitmap = await createImageBitmap(file);
+  try {
+    const scale = maxDimension > 0 ? Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height)) : 1;
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    const blob = await canvasToBlob(canvas, file.type, quality);
+    return new File([blob], file.name, { type: blob.type, lastModified: file.lastModified });
+  } finally {
+    bitmap.close();
+  }
+};
+
+const exceedsDimension = async (file: File, maxDimension: number) => {
+  if (maxDimension <= 0) return false;
+  const bitmap = await createImageBitmap(file);
+  const exceeds = Math.max(bitmap.width, bitmap.height) > maxDimension;
+  bitmap.close();
+  return exceeds;
+};
+
+/**
+ * Applies the profile's image options to a file picked, pasted or captured for upload.
+ * Other files are returned unchanged, as are images that cannot be resized. When metadata
+ * stripping is on, an image whose metadata cannot be removed is redrawn through the canvas
+ * (which drops it), and rejects if that fails too: the original is never returned.
+ */
+export const preprocessMedia = async (file: File, options: MediaOptions): Promise<File> => {
+  if (!RESIZABLE_IMAGE_TYPES.includes(file.type)) return file;
+  try {
+    if (options.resizeImages && await exceedsDimension(file, options.maxImageDimension)) {
+      return await reencodeImage(file, options.maxImageDimension, options.imageQuality);
+    }
+  } catch (error) {
+    console.error(`Resizing failed for ${file.name}:`, error);
+  }
+  if (!options.stripMetadata) return file;
+
+  try {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    let stripped: Uint8Array | null = null;
+    if (file.type === 'image/jpeg') stripped = stripJpegMetadata(bytes);
+    else if (file.type === 'image/png') stripped = stripPngMetadata(bytes);
+    if (stripped) {
+      return stripped.length === bytes.length
+        ? file
+        : new File([stripped as BlobPart], file.name, { type: file.type, lastModified: file.lastModified });
+    }
+  } catch (error) {
+    console.error(`Metadata stripping failed for ${file.name}, re-encoding:`, error);
+  }
+
+  // WebP, rotated JPEGs (orientation baked into the pixels) and files the parsers could not read
+  try {
+    return await reencodeImage(file, 0, options.imageQuality);
+  } catch (error) {
+    console.error(`Re-encoding failed for ${file.name}:`, error);
+    throw new Error(`Could not remove the metadata of ${file.name}, so it was not added. Turn off metadata stripping to send it as is.`);
+  }
+};
+
+/**
+ * Grabs a frame near the start of a video as a JPEG object URL for previews.
+ * Resolves undefined when the browser cannot decode the video.
+ */
+export const createVideoThumbnail = (file: File): Promise<string | undefined> =>
+  new Promise(resolve => {
+    const video = document.createElement('video');
+    const sourceUrl = URL.createObjectURL(file);
+    const finish = (url?: string) => {
+      URL.revokeObjectURL(sourceUrl);
+      video.removeAttribute('src');
+      video.load();
+      resolve(url);
+    };
+
+    video.muted = true;
+    video.preload = 'metadata';
+    video.onerror = () => finish();
+    video.onloadedmetadata = () => {
+      video.currentTime = Math.min(THUMBNAIL_SEEK_SECONDS, video.duration / 2 || 0);
+    };
+    video.onseeked = async () => {
+      try {
+        const canvas = document.createElement('canvas');
+        canvas.width = THUMBNAIL_WIDTH;
+        canvas.height = Math.round(THUMBNAIL_WIDTH * (video.videoHeight / video.videoWidth || 9 / 16));
+        canvas.getContext('2d')!.drawImage(video, 0, 0, canvas.width, canvas.height);
+        const blob = await canvasToBlob(canvas, 'image/jpeg', 0.8);
+        finish(URL.createObjectURL(blob));
+      } catch (error) {
+        console.error(`Could not create a thumbnail for ${file.name}:`, error);
+        finish();
+      }
+    };
+    video.src = sourceUrl;
+  });
+
+/**
+ * Image files from a paste event. Screenshots arrive named "image.png", so they are
+ * renamed with a timestamp to keep several pastes apart.
+ */
+export const getPastedFiles = (clipboardData: DataTransfer | null): File[] => {
+  if (!clipboardData) return [];
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  return Array.from(clipboardData.files).map((file, index) =>
+    file.type.startsWith('image/') && /^image\.\w+$/.test(file.name)
+      ? new File([file], `pasted-${stamp}${index > 0 ? `-${index}` : ''}.${file.name.split('.').pop()}`, { type: file.type })
+      : file);
+};
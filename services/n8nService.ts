@@ -1,27 +1,200 @@
-import { ChatMessage, MessageRole } from "../types";
+import { ChatCitation, ChatMessage, IngestionBatchResult, MessageRole, WebhookConfig } from "../types";
+import { createId } from "../utils/id";
+import { createRequestTimer } from "../utils/timeout";
+import { isVoiceFile } from "../utils/voice";
+import { IDEMPOTENCY_KEY_FIELD } from "../constants";
+import { prepareWebhookRequest } from "./webhookAuth";
+import { classifyErrorResponse, WebhookTimeoutError, WebhookUnreachableError } from "./errors";
+import { sendTextOnlyIngestion, uploadFilesIndividually, UploadOptions } from "./uploadPipeline";
+import { matchFileResult, parseIngestionResponse } from "./ingestionResults";
+import { parseCitations } from "./citations";
+import { mapChatResponse } from "./responseMapper";
+import { buildHistoryWindow } from "./historyWindow";
+
+export interface SendChatOptions {
+  /** Called with each partial piece of the answer while the response streams in. */
+  onToken?: (token: string) => void;
+  /** Aborts the underlying request (e.g. from the Stop button). Timeouts come from the profile. */
+  signal?: AbortSignal;
+  /** Reused when the same message is resent from the outbox so N8N can drop duplicates. */
+  idempotencyKey?: string;
+  /** Additional form fields, e.g. the visitor identity passed to the embeddable widget. */
+  extraFields?: Record<string, string>;
+}
+
+export interface ChatResponse {
+  text: string;
+  sources: ChatCitation[]; // From the documented `sources` field, empty if none were returned
+  sessionId?: string;      // Session id chosen by the workflow, if mapped
+  suggestions: string[];   // Follow-up questions, if mapped
+}
+
+type StreamEvent =
+  | { kind: 'token'; token: string }
+  | { kind: 'sources'; sources: ChatCitation[] }
+  | { kind: 'done' }
+  | { kind: 'ignore' };
+
+/**
+ * Interprets one line of a streamed N8N response.
+ * Supports the chunked NDJSON emitted by the Webhook / "Respond to Webhook" streaming mode
+ * ({"type":"begin"|"item"|"end"|"error", "content": ...}) and plain SSE `data:` lines.
+ * Retrieved sources may arrive on any non-item event as a `sources` array.
+ * Returns null when the line is not part of a stream, so the caller can fall back to
+ * treating the whole body as a regular JSON/text response.
+ */
+const parseStreamLine = (line: string): StreamEvent | null => {
+  const trimmed = line.trim();
+  if (!trimmed) return { kind: 'ignore' };
+
+  // Server-Sent Events
+  if (trimmed.startsWith('data:')) {
+    const payload = trimmed.slice(5).trim();
+    if (payload === '[DONE]') return { kind: 'done' };
+    let data;
+    try {
+      data = JSON.parse(payload);
+    } catch (e) {
+      // Plain text SSE payload
+      if (e instanceof SyntaxError) return { kind: 'token', token: payload };
+      throw e;
+    }
+    if (typeof data === 'string') return { kind: 'token', token: data };
+    if (!data || typeof data !== 'object') return { kind: 'token', token: payload };
+    // N8N events wrapped in SSE; an `error` event throws and must reach the caller
+    const ndjson = parseStreamLine(payload);
+    if (ndjson) return ndjson;
+    if (Array.isArray(data.sources)) return { kind: 'sources', sources: parseCitations(data.sources) };
+    const token = data.content ?? data.delta ?? data.token ?? data.text ?? data.output;
+    return typeof token === 'string' ? { kind: 'token', token } : { kind: 'ignore' };
+  }
+  if (trimmed.startsWith('event:') || trimmed.startsWith('id:') || trimmed.startsWith('retry:') || trimmed.startsWith(':')) {
+    return { kind: 'ignore' };
+  }
+
+  // N8N chunked NDJSON
+  try {
+    const data = JSON.parse(trimmed);
+    if (!data || typeof data !== 'object' || typeof data.type !== 'string') return null;
+    if (data.type !== 'item' && data.type !== 'error' && Array.isArray(data.sources)) {
+      return { kind: 'sources', sources: parseCitations(data.sources) };
+    }
+    switch (data.type) {
+      case 'item':
+        return typeof data.content === 'string' ? { kind: 'token', token: data.content } : { kind: 'ignore' };
+      case 'begin':
+        return { kind: 'ignore' };
+      case 'end':
+        return { kind: 'done' };
+      case 'error':
+        throw new Error(data.content || data.message || "Workflow reported an error while streaming.");
+      default:
+        return null;
+    }
+  } catch (e) {
+    if (e instanceof SyntaxError) return null;
+    throw e;
+  }
+};
+
+/**
+ * Reads the response body incrementally, forwarding streamed tokens as they arrive.
+ * Returns the concatenated streamed text and sources (if the body was a stream) and the raw body.
+ */
+const readChatStream = async (
+  response: Response,
+  onToken?: (token: string) => void,
+  onChunk?: () => void
+): Promise<{ streamed: boolean; text: string; sources: ChatCitation[]; raw: string }> => {
+  if (!response.body) {
+    const raw = await response.text();
+    return { streamed: false, text: '', sources: [], raw };
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let raw = '';
+  let buffer = '';
+  let text = '';
+  let sources: ChatCitation[] = [];
+  let streamed = false;
+  // Once a line fails to parse as a stream event the body is a regular response
+  let isStream = true;
+
+  const handleLine = (line: string) => {
+    if (!isStream) return;
+    const event = parseStreamLine(line);
+    if (!event) {
+      isStream = false;
+      return;
+    }
+    if (event.kind === 'token') {
+      streamed = true;
+      text += event.token;
+      onToken?.(event.token);
+    } else if (event.kind === 'sources') {
+      streamed = true;
+      sources = event.sources;
+    } else if (event.kind === 'done') {
+      streamed = true;
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    onChunk?.();
+    const chunk = decoder.decode(value, { stream: true });
+    raw += chunk;
+    buffer += chunk;
+
+    let newlineIndex = buffer.indexOf('\n');
+    while (newlineIndex !== -1) {
+      handleLine(buffer.slice(0, newlineIndex));
+      buffer = buffer.slice(newlineIndex + 1);
+      newlineIndex = buffer.indexOf('\n');
+    }
+  }
+  const tail = decoder.decode();
+  raw += tail;
+  buffer += tail;
+  if (buffer.trim()) handleLine(buffer);
+
+  return { streamed: streamed && isStream, text, sources, raw };
+};
 
 /**
  * Sends a chat message to the N8N chat webhook.
  * Uses FormData to send files (as binary) and text simultaneously.
+ * `history` is trimmed according to `config.history` before it is sent.
+ * Streamed responses (NDJSON or SSE) are forwarded through `options.onToken`;
+ * the resolved value is always the full answer text plus any retrieved sources.
  */
 export const sendChatMessage = async (
-  url: string,
+  config: WebhookConfig,
+  sessionId: string,
   message: string,
   history: ChatMessage[],
-  files: File[] = []
-): Promise<string> => {
+  files: File[] = [],
+  options: SendChatOptions = {}
+): Promise<ChatResponse> => {
+  const url = config.chatUrl;
   if (!url) throw new Error("Chat Webhook URL is not configured.");
 
   try {
-    const sessionId = 'session-' + new Date().toDateString();
     const formData = new FormData();
 
-    // 1. Append Text Data
-    formData.append('message', message);
+    // 1. Append Text Data (field names are configurable per profile; empty names are skipped)
+    const fields = config.requestFields;
+    const appendField = (name: string, value: string) => {
+      if (name.trim()) formData.append(name.trim(), value);
+    };
+    appendField(fields.message, message);
     // Also append as chatInput for compatibility with some N8N chat templates
-    formData.append('chatInput', message);
-    formData.append('sessionId', sessionId);
-    formData.append('history', JSON.stringify(history.map(h => ({ role: h.role, content: h.content }))));
+    appendField(fields.chatInput, message);
+    appendField(fields.sessionId, sessionId);
+    appendField(fields.history, JSON.stringify(buildHistoryWindow(history, config.history).entries));
+    Object.entries(options.extraFields ?? {}).forEach(([name, value]) => appendField(name, value));
 
     // 2. Append Files & Metadata using Bracket Notation
     files.forEach((file, index) => {
@@ -34,7 +207,9 @@ export const sendChatMessage = async (
         name: file.name,
         type: file.type,
         size: file.size,
-        key: `file_${index}`
+        key: `file_${index}`,
+        // Recorded in the composer: the workflow should transcribe it as the question
+        ...(isVoiceFile(file.name) && { voice: true })
       };
       
       // Send as a stringified JSON array element or object
@@ -45,38 +220,60 @@ export const sendChatMessage = async (
     });
 
     formData.append('file_count', files.length.toString());
+    if (files.some(f => isVoiceFile(f.name))) {
+      formData.append('voice_query', 'true');
+    }
+    formData.append(IDEMPOTENCY_KEY_FIELD, options.idempotencyKey ?? createId());
 
-    // 3. Send as multipart/form-data
-    const response = await fetch(url, {
-      method: 'POST',
-      body: formData,
-    });
-
-    if (!response.ok) {
-      let errorDesc = response.statusText;
+    // 3. Send as multipart/form-data (with auth headers / signature)
+    const request = await prepareWebhookRequest(config, formData);
+    const timer = createRequestTimer(config.timeouts.requestSeconds, options.signal);
+    let responseText: string;
+    try {
+      let response: Response;
       try {
-        const errorText = await response.text();
-        const errorJson = JSON.parse(errorText);
-        // N8N specific error fields
-        errorDesc = errorJson.errorMessage || errorJson.message || JSON.stringify(errorJson);
-      } catch (e) {
-        // Fallback if response is not JSON
+        response = await fetch(url, {
+          method: 'POST',
+          headers: request.headers,
+          body: request.body,
+          signal: timer.signal,
+        });
+      } catch (error) {
+        // fetch only rejects on network failures (and aborts)
+        if (error instanceof TypeError) throw new WebhookUnreachableError();
+        throw error;
+      }
+
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => '');
+        throw classifyErrorResponse(response.status, errorText, response.statusText, url);
       }
-      throw new Error(errorDesc);
+
+      // 4. Handle Response (Stream, JSON or Text); each streamed chunk restarts the timeout
+      const streamResult = await readChatStream(response, options.onToken, timer.reset);
+      if (streamResult.streamed) {
+        return { text: streamResult.text, sources: streamResult.sources, suggestions: [] };
+      }
+      responseText = streamResult.raw;
+    } catch (error) {
+      if (timer.timedOut()) throw new WebhookTimeoutError(config.timeouts.requestSeconds);
+      throw error;
+    } finally {
+      timer.clear();
     }
 
-    // 4. Handle Response (JSON or Text)
-    const responseText = await response.text();
+    let data: unknown;
     try {
-      const data = JSON.parse(responseText);
-      // Adapt based on common N8N return structures
-      return data.output || data.text || data.message || (typeof data === 'string' ? data : JSON.stringify(data));
+      data = JSON.parse(responseText);
     } catch (e) {
       // If response is not JSON, return the raw text
-      return responseText;
+      return { text: responseText, sources: [], suggestions: [] };
     }
+    // Locate answer, sources, session id and suggestions via the profile's mapping
+    return mapChatResponse(data, config.responseMapping);
 
   } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') throw error;
     console.error("Failed to send message to N8N:", error);
     throw error;
   }
@@ -84,62 +281,38 @@ export const sendChatMessage = async (
 
 /**
  * Uploads files to the N8N ingestion webhook.
- * Uses FormData to send files (as binary) and text simultaneously.
+ * Each file is sent in its own multipart request (large files in resumable chunks),
+ * with the text context attached to every request.
+ * Resolves with the batch id and an outcome per file, including any per-file
+ * result the workflow reported (see `IngestionFileResult`).
  */
 export const uploadFilesToWebhook = async (
-  url: string,
+  config: WebhookConfig,
   files: File[],
-  textContext?: string
-): Promise<void> => {
-  if (!url) throw new Error("Ingestion Webhook URL is not configured.");
+  textContext?: string,
+  options: UploadOptions = {}
+): Promise<IngestionBatchResult> => {
+  if (!config.ingestionUrl) throw new Error("Ingestion Webhook URL is not configured.");
 
-  const sessionId = 'ingestion-' + new Date().toDateString();
+  const context = { batchId: options.batchId ?? createId(), textContext };
 
   try {
-    const formData = new FormData();
-
-    // 1. Append Text Context
-    formData.append('message', textContext || "");
-    formData.append('chatInput', textContext || "");
-    formData.append('sessionId', sessionId);
-
-    // 2. Append Files & Metadata
-    files.forEach((file, index) => {
-      formData.append(`file_${index}`, file);
-      
-      const metadata = {
-        name: file.name,
-        type: file.type,
-        size: file.size,
-        key: `file_${index}`
-      };
-      // Sending metadata as JSON string is safest for N8N Webhook node parsing
-      formData.append(`file_metadata`, JSON.stringify(metadata));
-    });
-    
-    formData.append('file_count', files.length.toString());
-
-    // 3. Send
-    const response = await fetch(url, {
-      method: 'POST',
-      body: formData,
-    });
-
-    if (!response.ok) {
-        let errorDesc = response.statusText;
-        try {
-          const errorText = await response.text();
-          const errorJson = JSON.parse(errorText);
-          errorDesc = errorJson.errorMessage || errorJson.message || JSON.stringify(errorJson);
-        } catch (e) {
-          // Fallback
-        }
-        throw new Error(errorDesc);
+    if (files.length === 0) {
+      const responseText = await sendTextOnlyIngestion(config, context, options.signal);
+      return { batchId: context.batchId, files: [], responseText };
     }
-    
-    // We assume a 200 OK means success
+
+    const outcomes = await uploadFilesIndividually(config, files, context, options);
+    // Join the workflow's per-file results onto each upload
+    return {
+      batchId: context.batchId,
+      files: outcomes.map(outcome => ({
+        ...outcome,
+        result: outcome.ok ? matchFileResult(parseIngestionResponse(outcome.responseText), outcome.index) : undefined
+      }))
+    };
   } catch (error) {
     console.error("Failed to upload files to N8N:", error);
     throw error;
   }
-};
\ No newline at end of file
+};
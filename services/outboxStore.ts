@@ -0,0 +1,43 @@
+import { ChatOutboxEntry, IngestionOutboxEntry, OutboxEntry } from "../types";
+import { OUTBOX_RETRY_BASE_DELAY_MS, OUTBOX_RETRY_MAX_DELAY_MS } from "../constants";
+import { createId } from "../utils/id";
+import { deleteRecord, getAllRecords, putRecord, STORES } from "./db";
+
+type NewEntry<T extends OutboxEntry> = Omit<T, 'kind' | 'id' | 'createdAt' | 'attempts' | 'nextAttemptAt' | 'status'>;
+
+const createQueueFields = () => {
+  const now = Date.now();
+  return { id: createId(), createdAt: now, attempts: 0, nextAttemptAt: now, status: 'pending' as const };
+};
+
+export const createChatOutboxEntry = (entry: NewEntry<ChatOutboxEntry>): ChatOutboxEntry =>
+  ({ ...entry, ...createQueueFields(), kind: 'chat' });
+
+export const createIngestionOutboxEntry = (entry: NewEntry<IngestionOutboxEntry>): IngestionOutboxEntry =>
+  ({ ...entry, ...createQueueFields(), kind: 'ingestion' });
+
+/**
+ * Delay before the next automatic attempt: doubles per attempt, capped, with up to
+ * 20% jitter so many queued entries do not hit a recovering host at once.
+ */
+export const getRetryDelay = (attempts: number): number => {
+  const delay = Math.min(OUTBOX_RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1), OUTBOX_RETRY_MAX_DELAY_MS);
+  return Math.round(delay * (1 + Math.random() * 0.2));
+};
+
+/**
+ * Loads queued requests, oldest first so they are replayed in order.
+ * Entries left `sending` by a closed tab are treated as pending again.
+ */
+export const loadOutbox = async (): Promise<OutboxEntry[]> => {
+  const entries = await getAllRecords<OutboxEntry>(STORES.OUTBOX);
+  return entries
+    .map(entry => entry.status === 'sending' ? { ...entry, status: 'pending' as const } : entry)
+    .sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const saveOutboxEntry = (entry: OutboxEntry): Promise<void> =>
+  putRecord(STORES.OUTBOX, entry);
+
+export const deleteOutboxEntry = (id: string): Promise<void> =>
+  deleteRecord(STORES.OUTBOX, id);
@@ -0,0 +1,174 @@
+import { ProfileState, WebhookHeader, WebhookProfile } from "../types";
+import { DEFAULT_CONFIG, DEFAULT_PROFILE_NAME, LOCAL_STORAGE_CONFIG_KEY, LOCAL_STORAGE_PROFILES_KEY } from "../constants";
+import { createId } from "../utils/id";
+import { isRecord } from "../utils/json";
+
+const PROFILE_EXPORT_VERSION = 1;
+
+export const createProfile = (name: string, base: Partial<WebhookProfile> = {}): WebhookProfile => ({
+  ...DEFAULT_CONFIG,
+  ...base,
+  headers: (base.headers ?? DEFAULT_CONFIG.headers).map(h => ({ ...h })),
+  auth: { ...DEFAULT_CONFIG.auth, ...base.auth },
+  signing: { ...DEFAULT_CONFIG.signing, ...base.signing },
+  requestFields: { ...DEFAULT_CONFIG.requestFields, ...base.requestFields },
+  responseMapping: { ...DEFAULT_CONFIG.responseMapping, ...base.responseMapping },
+  preprocessing: { ...DEFAULT_CONFIG.preprocessing, ...base.preprocessing },
+  timeouts: { ...DEFAULT_CONFIG.timeouts, ...base.timeouts },
+  history: { ...DEFAULT_CONFIG.history, ...base.history },
+  voice: { ...DEFAULT_CONFIG.voice, ...base.voice },
+  media: { ...DEFAULT_CONFIG.media, ...base.media },
+  uploadLimits: { ...DEFAULT_CONFIG.uploadLimits, ...base.uploadLimits },
+  ingestionLog: { ...DEFAULT_CONFIG.ingestionLog, ...base.ingestionLog },
+  structuredData: { ...DEFAULT_CONFIG.structuredData, ...base.structuredData },
+  id: createId(),
+  name
+});
+
+const normalizeHeaders = (raw: unknown): WebhookHeader[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((h): h is Record<string, unknown> & { name: string } => isRecord(h) && typeof h.name === 'string')
+    .map(h => ({ name: h.name, value: typeof h.value === 'string' ? h.value : '' }));
+};
+
+/**
+ * Keeps the fields of a stored settings section whose type matches the default;
+ * unknown keys are dropped and mistyped values fall back to the default.
+ */
+const normalizeSection = <T extends object>(defaults: T, raw: unknown): T => {
+  const section = { ...defaults };
+  if (!isRecord(raw)) return section;
+  (Object.keys(defaults) as (keyof T & string)[]).forEach(key => {
+    if (typeof raw[key] === typeof defaults[key]) section[key] = raw[key] as T[typeof key];
+  });
+  return section;
+};
+
+const pickOption = <T extends string>(value: T, options: readonly T[], fallback: T): T =>
+  options.includes(value) ? value : fallback;
+
+const readString = (raw: Record<string, unknown>, key: string) =>
+  typeof raw[key] === 'string' ? raw[key] : '';
+
+/**
+ * Fills in defaults for a profile read from storage or an imported file.
+ */
+const normalizeProfile = (raw: Record<string, unknown>): WebhookProfile => {
+  const auth = normalizeSection(DEFAULT_CONFIG.auth, raw.auth);
+  const preprocessing = normalizeSection(DEFAULT_CONFIG.preprocessing, raw.preprocessing);
+  const history = normalizeSection(DEFAULT_CONFIG.history, raw.history);
+  const name = readString(raw, 'name').trim();
+  return {
+    id: readString(raw, 'id') || createId(),
+    name: name || DEFAULT_PROFILE_NAME,
+    ingestionUrl: readString(raw, 'ingestionUrl'),
+    chatUrl: readString(raw, 'chatUrl'),
+    listDocumentsUrl: readString(raw, 'listDocumentsUrl'),
+    deleteDocumentUrl: readString(raw, 'deleteDocumentUrl'),
+    feedbackUrl: readString(raw, 'feedbackUrl'),
+    headers: normalizeHeaders(raw.headers),
+    auth: { ...auth, type: pickOption(auth.type, ['none', 'header', 'basic', 'jwt'], DEFAULT_CONFIG.auth.type) },
+    signing: normalizeSection(DEFAULT_CONFIG.signing, raw.signing),
+    requestFields: normalizeSection(DEFAULT_CONFIG.requestFields, raw.requestFields),
+    responseMapping: normalizeSection(DEFAULT_CONFIG.responseMapping, raw.responseMapping),
+    preprocessing: { ...preprocessing, mode: pickOption(preprocessing.mode, ['alongside', 'instead'], DEFAULT_CONFIG.preprocessing.mode) },
+    timeouts: normalizeSection(DEFAULT_CONFIG.timeouts, raw.timeouts),
+    history: { ...history, strategy: pickOption(history.strategy, ['all', 'turns', 'tokens', 'none'], DEFAULT_CONFIG.history.strategy) },
+    voice: normalizeSection(DEFAULT_CONFIG.voice, raw.voice),
+    media: normalizeSection(DEFAULT_CONFIG.media, raw.media),
+    uploadLimits: normalizeSection(DEFAULT_CONFIG.uploadLimits, raw.uploadLimits),
+    ingestionLog: normalizeSection(DEFAULT_CONFIG.ingestionLog, raw.ingestionLog),
+    structuredData: normalizeSection(DEFAULT_CONFIG.structuredData, raw.structuredData)
+  };
+};
+
+/**
+ * Turns the legacy single `n8n_chatbot_config_v2` entry into the first profile.
+ */
+const migrateLegacyConfig = (): WebhookProfile => {
+  const stored = localStorage.getItem(LOCAL_STORAGE_CONFIG_KEY);
+  if (stored) {
+    try {
+      const parsed = JSON.parse(stored);
+      // Fallback to DEFAULT_CONFIG if stored values are empty strings
+      return createProfile(DEFAULT_PROFILE_NAME, {
+        ingestionUrl: parsed.ingestionUrl || DEFAULT_CONFIG.ingestionUrl,
+        chatUrl: parsed.chatUrl || DEFAULT_CONFIG.chatUrl
+      });
+    } catch (e) {
+      console.error("Error parsing legacy config", e);
+    }
+  }
+  return createProfile(DEFAULT_PROFILE_NAME);
+};
+
+export const saveProfileState = (state: ProfileState) => {
+  localStorage.setItem(LOCAL_STORAGE_PROFILES_KEY, JSON.stringify(state));
+};
+
+/**
+ * Loads the stored profiles, migrating the legacy config on first run.
+ */
+export const loadProfileState = (): ProfileState => {
+  const stored = localStorage.getItem(LOCAL_STORAGE_PROFILES_KEY);
+  if (stored) {
+    try {
+      const parsed = JSON.parse(stored);
+      const profiles: WebhookProfile[] = Array.isArray(parsed.profiles) ? parsed.profiles.filter(isRecord).map(normalizeProfile) : [];
+      if (profiles.length > 0) {
+        const activeProfileId = profiles.some(p => p.id === parsed.activeProfileId) ? parsed.activeProfileId : profiles[0].id;
+        return { profiles, activeProfileId };
+      }
+    } catch (e) {
+      console.error("Error parsing profiles", e);
+    }
+  }
+
+  const migrated = migrateLegacyConfig();
+  const state = { profiles: [migrated], activeProfileId: migrated.id };
+  saveProfileState(state);
+  localStorage.removeItem(LOCAL_STORAGE_CONFIG_KEY);
+  return state;
+};
+
+export const getActiveProfile = (state: ProfileState): WebhookProfile =>
+  state.profiles.find(p => p.id === state.activeProfileId) ?? state.profiles[0];
+
+/**
+ * Serializes profiles for download. Note that headers, credentials and signing secrets are included.
+ */
+export const exportProfiles = (profiles: WebhookProfile[]): string =>
+  JSON.stringify({
+    version: PROFILE_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    profiles
+  }, null, 2);
+
+/**
+ * Parses an exported profiles file (or a bare array of profiles).
+ * Imported profiles get new ids when they collide with existing ones.
+ */
+export const importProfiles = (json: string, existing: WebhookProfile[]): WebhookProfile[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (e) {
+    throw new Error("The selected file is not valid JSON.");
+  }
+
+  const rawProfiles = Array.isArray(parsed) ? parsed : isRecord(parsed) ? parsed.profiles : undefined;
+  if (!Array.isArray(rawProfiles) || rawProfiles.length === 0) {
+    throw new Error("No profiles found in the selected file.");
+  }
+
+  const takenIds = new Set(existing.map(p => p.id));
+  return rawProfiles
+    .filter(isRecord)
+    .map(raw => {
+      const profile = normalizeProfile(raw);
+      if (takenIds.has(profile.id)) profile.id = createId();
+      takenIds.add(profile.id);
+      return profile;
+    });
+};
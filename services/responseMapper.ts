@@ -0,0 +1,48 @@
+import { ChatCitation, ResponseMapping } from "../types";
+import { AUTO_ANSWER_PATHS } from "../constants";
+import { getByPath } from "../utils/pathExpression";
+import { parseCitations } from "./citations";
+
+export interface MappedChatResponse {
+  text: string;
+  sources: ChatCitation[];
+  sessionId?: string;
+  suggestions: string[];
+}
+
+// N8N returns `[{ ... }]` when responding with all incoming items
+const unwrapSingleItem = (data: unknown) =>
+  Array.isArray(data) && data.length === 1 ? data[0] : data;
+
+const resolve = (data: unknown, path: string, autoPaths: string[]): unknown => {
+  if (path.trim()) return getByPath(data, path);
+  const item = unwrapSingleItem(data);
+  for (const autoPath of autoPaths) {
+    const value = getByPath(item, autoPath);
+    if (value !== undefined && value !== null && value !== '') return value;
+  }
+  return undefined;
+};
+
+/**
+ * Applies a profile's response mapping to a parsed JSON chat response.
+ * An answer that cannot be located is shown as the raw JSON so nothing is silently lost.
+ */
+export const mapChatResponse = (data: unknown, mapping: ResponseMapping): MappedChatResponse => {
+  if (typeof data === 'string') return { text: data, sources: [], suggestions: [] };
+
+  const answer = resolve(data, mapping.answerPath, AUTO_ANSWER_PATHS);
+  const sessionId = resolve(data, mapping.sessionIdPath, ['sessionId']);
+  const suggestions = resolve(data, mapping.suggestionsPath, ['suggestions']);
+
+  return {
+    text: typeof answer === 'string'
+      ? answer
+      : JSON.stringify(answer !== undefined ? answer : data),
+    sources: parseCitations(resolve(data, mapping.sourcesPath, ['sources'])),
+    sessionId: typeof sessionId === 'string' || typeof sessionId === 'number' ? String(sessionId) : undefined,
+    suggestions: Array.isArray(suggestions)
+      ? suggestions.filter((s): s is string => typeof s === 'string' && s.trim() !== '')
+      : []
+  };
+};
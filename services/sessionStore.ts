@@ -0,0 +1,41 @@
+import { ChatMessage, ChatSession, MessageRole } from "../types";
+import { createId } from "../utils/id";
+import { deleteRecord, getAllRecords, putRecord, STORES } from "./db";
+
+export const DEFAULT_SESSION_TITLE = 'New chat';
+const MAX_TITLE_LENGTH = 48;
+
+export const createSession = (): ChatSession => {
+  const now = Date.now();
+  return {
+    id: createId(),
+    title: DEFAULT_SESSION_TITLE,
+    createdAt: now,
+    updatedAt: now,
+    messages: []
+  };
+};
+
+/**
+ * Builds a title from the first user message, used until the user renames the session.
+ */
+export const deriveSessionTitle = (messages: ChatMessage[]): string => {
+  const firstUserMsg = messages.find(m => m.role === MessageRole.USER);
+  const text = firstUserMsg?.content.trim() || firstUserMsg?.attachments?.[0]?.name;
+  if (!text) return DEFAULT_SESSION_TITLE;
+  return text.length > MAX_TITLE_LENGTH ? `${text.slice(0, MAX_TITLE_LENGTH).trimEnd()}…` : text;
+};
+
+/**
+ * Loads all stored sessions, most recently updated first.
+ */
+export const loadSessions = async (): Promise<ChatSession[]> => {
+  const sessions = await getAllRecords<ChatSession>(STORES.SESSIONS);
+  return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const saveSession = (session: ChatSession): Promise<void> =>
+  putRecord(STORES.SESSIONS, session);
+
+export const deleteSession = (id: string): Promise<void> =>
+  deleteRecord(STORES.SESSIONS, id);
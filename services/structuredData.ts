@@ -0,0 +1,390 @@
+import {
+  ColumnRole,
+  FileUploadItem,
+  FileUploadOutcome,
+  StructuredIngestionRequest,
+  StructuredIngestionResponse,
+  StructuredRecord,
+  TableData,
+  TableImport,
+  WebhookConfig
+} from "../types";
+import { MAX_TABLE_ROWS } from "../constants";
+import { postJson } from "./jsonWebhook";
+import { getErrorKind } from "./errors";
+import { parseResultStatus } from "./ingestionResults";
+
+const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+const RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+type TableKind = 'csv' | 'xlsx' | 'json';
+
+interface ZipEntry {
+  method: number; // 0 = stored, 8 = deflate
+  compressedSize: number;
+  localOffset: number;
+}
+
+// Column roles that carry the text of a record
+const TEXT_ROLES: ColumnRole[] = ['question', 'answer', 'content'];
+
+// Header names recognized when guessing the mapping; other columns become metadata
+const ROLE_PATTERNS: [ColumnRole, RegExp][] = [
+  ['question', /question|^q$|prompt|query/i],
+  ['answer', /answer|^a$|response|reply/i],
+  ['content', /content|text|body|description|article/i]
+];
+
+const getTableKind = (file: File): TableKind | null => {
+  const name = file.name.toLowerCase();
+  if (file.type === 'text/csv' || name.endsWith('.csv')) return 'csv';
+  if (file.type === XLSX_MIME_TYPE || name.endsWith('.xlsx')) return 'xlsx';
+  if (file.type === 'application/json' || name.endsWith('.json')) return 'json';
+  return null;
+};
+
+export const isTableFile = (file: File) => getTableKind(file) !== null;
+
+export const hasTextColumn = (mapping: ColumnRole[]) => mapping.some(role => TEXT_ROLES.includes(role));
+
+// Files whose rows go to the webhook as JSON records instead of as an upload
+export const sendsAsRecords = (item: FileUploadItem) => item.table?.status === 'done' && item.table.sendAsRecords;
+
+const cellText = (value: unknown): string =>
+  value === null || value === undefined ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+/**
+ * Turns a grid whose first non-empty row is the header into a table. Blank or repeated
+ * header names are made unique, since they key the metadata of each record.
+ */
+const toTable = (grid: string[][], sheet?: string): TableData => {
+  const nonEmpty = grid.filter(row => row.some(cell => cell.trim()));
+  if (nonEmpty.length === 0) throw new Error("The file has no rows.");
+
+  const [header, ...allRows] = nonEmpty;
+  const body = allRows.slice(0, MAX_TABLE_ROWS);
+  // reduce, not Math.max(...rows): spreading a large file exceeds the argument limit
+  const width = body.reduce((max, row) => Math.max(max, row.length), header.length);
+  const columns: string[] = [];
+  for (let i = 0; i < width; i++) {
+    const base = header[i]?.trim() || `Column ${i + 1}`;
+    let name = base;
+    for (let n = 2; columns.includes(name); n++) name = `${base} (${n})`;
+    columns.push(name);
+  }
+
+  return {
+    columns,
+    rows: body.map(row => columns.map((_, i) => row[i] ?? '')),
+    sheet,
+    truncated: allRows.length > MAX_TABLE_ROWS || undefined
+  };
+};
+
+// --- CSV ---
+
+// Comma, semicolon (European Excel exports) or tab, whichever the header line uses most
+const detectDelimiter = (text: string) => {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  return [',', ';', '\t'].reduce((best, d) => firstLine.split(d).length > firstLine.split(best).length ? d : best, ',');
+};
+
+/**
+ * RFC 4180 CSV: quoted fields may contain delimiters, line breaks and doubled quotes.
+ */
+const parseCsv = (text: string): string[][] => {
+  const delimiter = detectDelimiter(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char !== '"') field += char;
+      else if (text[i + 1] === '"') { field += '"'; i++; }
+      else inQuotes = false;
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) rows.push([...row, field]);
+  return rows;
+};
+
+// --- JSON ---
+
+/**
+ * Accepts an array of objects (keys become columns), an array of arrays (first one is the
+ * header), or an object wrapping such an array, e.g. `{ "data": [...] }`.
+ */
+const parseJsonTable = (text: string): TableData => {
+  let data: unknown = JSON.parse(text);
+  if (data && typeof data === 'object' && !Array.isArray(data)) {
+    data = Object.values(data).find(Array.isArray) ?? [data];
+  }
+  if (!Array.isArray(data) || data.length === 0) {
+    throw new Error("No records found. Expected an array of objects.");
+  }
+
+  if (data.every(Array.isArray)) return toTable(data.map(row => row.map(cellText)));
+
+  const objects = data.filter((item): item is Record<string, unknown> => !!item && typeof item === 'object' && !Array.isArray(item));
+  if (objects.length === 0) throw new Error("No records found. Expected an array of objects.");
+  const columns = Array.from(new Set(objects.flatMap(item => Object.keys(item))));
+  return toTable([columns, ...objects.map(item => columns.map(column => cellText(item[column])))]);
+};
+
+// --- XLSX ---
+
+const readZipEntries = (bytes: Uint8Array): Map<string, ZipEntry> => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // End of central directory record: the last 22 bytes, followed by a comment of up to 64 KB
+  let end = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) { end = i; break; }
+  }
+  if (end === -1) throw new Error("Not a valid XLSX file.");
+
+  const entries = new Map<string, ZipEntry>();
+  let offset = view.getUint32(end + 16, true);
+  for (let i = view.getUint16(end + 10, true); i > 0 && view.getUint32(offset, true) === 0x02014b50; i--) {
+    const nameLength = view.getUint16(offset + 28, true);
+    const name = new TextDecoder().decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localOffset: view.getUint32(offset + 42, true)
+    });
+    offset += 46 + nameLength + view.getUint16(offset + 30, true) + view.getUint16(offset + 32, true);
+  }
+  return entries;
+};
+
+const readZipText = async (bytes: Uint8Array, entries: Map<string, ZipEntry>, name: string): Promise<string | undefined> => {
+  const entry = entries.get(name);
+  if (!entry) return undefined;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const start = entry.localOffset + 30 + view.getUint16(entry.localOffset + 26, true) + view.getUint16(entry.localOffset + 28, true);
+  const data = bytes.slice(start, start + entry.compressedSize);
+  if (entry.method === 0) return new TextDecoder().decode(data);
+  if (entry.method !== 8) throw new Error(`Unsupported compression in ${name}.`);
+  return new Response(new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'))).text();
+};
+
+const parseXml = (text: string) => new DOMParser().parseFromString(text, 'application/xml');
+
+const byLocalName = (parent: Document | Element, name: string) => Array.from(parent.getElementsByTagNameNS('*', name));
+
+// "BC12" -> 54
+const columnIndex = (reference: string) =>
+  Array.from(reference.replace(/\d+$/, '').toUpperCase()).reduce((index, c) => index * 26 + c.charCodeAt(0) - 64, 0) - 1;
+
+/**
+ * Reads the first worksheet of an XLSX workbook with the browser's own inflate, so no
+ * spreadsheet library is bundled. Cells are read as stored: dates come through as
+ * Excel serial numbers and formulas as their cached values.
+ */
+const parseXlsx = async (file: File): Promise<TableData> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const entries = readZipEntries(bytes);
+
+  const workbookXml = await readZipText(bytes, entries, 'xl/workbook.xml');
+  if (!workbookXml) throw new Error("Not a valid XLSX file.");
+  const sheet = byLocalName(parseXml(workbookXml), 'sheet')[0];
+  if (!sheet) throw new Error("The workbook has no worksheets.");
+
+  const relationshipId = sheet.getAttributeNS(RELATIONSHIPS_NS, 'id');
+  const relsXml = await readZipText(bytes, entries, 'xl/_rels/workbook.xml.rels');
+  const target = relsXml && byLocalName(parseXml(relsXml), 'Relationship')
+    .find(rel => rel.getAttribute('Id') === relationshipId)?.getAttribute('Target');
+  const sheetPath = !target ? 'xl/worksheets/sheet1.xml' : target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+  const sheetXml = await readZipText(bytes, entries, sheetPath);
+  if (!sheetXml) throw new Error("The first worksheet could not be read.");
+
+  // Rich text strings are split into runs; phonetic hints (rPh) are not part of the value
+  const stringsXml = await readZipText(bytes, entries, 'xl/sharedStrings.xml');
+  const sharedStrings = stringsXml
+    ? byLocalName(parseXml(stringsXml), 'si').map(si =>
+      byLocalName(si, 't').filter(t => (t.parentNode as Element | null)?.localName !== 'rPh').map(t => t.textContent ?? '').join(''))
+    : [];
+
+  const grid = byLocalName(parseXml(sheetXml), 'row').map(row => {
+    const cells: string[] = [];
+    byLocalName(row, 'c').forEach(cell => {
+      const reference = cell.getAttribute('r');
+      const index = reference ? columnIndex(reference) : cells.length;
+      const value = byLocalName(cell, 'v')[0]?.textContent ?? '';
+      switch (cell.getAttribute('t')) {
+        case 's': cells[index] = sharedStrings[Number(value)] ?? ''; break;
+        case 'inlineStr': cells[index] = byLocalName(cell, 't').map(t => t.textContent ?? '').join(''); break;
+        case 'b': cells[index] = value === '1' ? 'TRUE' : 'FALSE'; break;
+        default: cells[index] = value;
+      }
+    });
+    return Array.from(cells, cell => cell ?? '');
+  });
+
+  return toTable(grid, sheet.getAttribute('name') ?? undefined);
+};
+
+/**
+ * Parses a CSV, XLSX or JSON file into a table and guesses the column mapping.
+ */
+export const importTableFile = async (file: File): Promise<TableImport> => {
+  const kind = getTableKind(file);
+  if (!kind) return { status: 'error', mapping: [], sendAsRecords: false, error: "Not a CSV, XLSX or JSON file." };
+
+  try {
+    const data = kind === 'xlsx'
+      ? await parseXlsx(file)
+      : kind === 'json'
+        ? parseJsonTable(await file.text())
+        : toTable(parseCsv((await file.text()).replace(/^\ufeff/, '')));
+    const mapping = guessColumnRoles(data);
+    return { status: 'done', data, mapping, sendAsRecords: hasTextColumn(mapping) };
+  } catch (error) {
+    console.error(`Failed to read ${file.name} as a table:`, error);
+    return {
+      status: 'error',
+      mapping: [],
+      sendAsRecords: false,
+      error: error instanceof Error ? error.message : "Unknown error"
+    };
+  }
+};
+
+/**
+ * Maps columns by header name (question, answer, content...). When no header names a
+ * text column, the column with the longest values is taken as the content.
+ */
+export const guessColumnRoles = (table: TableData): ColumnRole[] => {
+  const taken = new Set<ColumnRole>();
+  const mapping = table.columns.map((column): ColumnRole => {
+    const match = ROLE_PATTERNS.find(([role, pattern]) => !taken.has(role) && pattern.test(column));
+    if (!match) return 'metadata';
+    taken.add(match[0]);
+    return match[0];
+  });
+
+  if (!hasTextColumn(mapping) && table.columns.length > 0) {
+    const sample = table.rows.slice(0, 100);
+    const lengths = table.columns.map((_, i) => sample.reduce((sum, row) => sum + row[i].length, 0));
+    mapping[lengths.indexOf(Math.max(...lengths))] = 'content';
+  }
+  return mapping;
+};
+
+/**
+ * Builds one record per row. Several columns with the same text role are joined by line
+ * breaks; rows without any text are skipped.
+ */
+export const buildRecords = (table: TableData, mapping: ColumnRole[]): StructuredRecord[] =>
+  table.rows
+    .map((cells, i) => {
+      const record: StructuredRecord = { row: i + 1, metadata: {} };
+      cells.forEach((cell, column) => {
+        const role = mapping[column] ?? 'ignore';
+        const value = cell.trim();
+        if (!value || role === 'ignore') return;
+        if (role === 'metadata') record.metadata[table.columns[column]] = value;
+        else record[role] = record[role] ? `${record[role]}\n${value}` : value;
+      });
+      return record;
+    })
+    .filter(record => record.question || record.answer || record.content);
+
+/**
+ * Sends a file's records to the ingestion webhook as JSON, `recordsPerRequest` at a time.
+ * Stops at the first failing request; like file uploads, the failure is reported in the
+ * outcome rather than thrown; only aborts reject. Chunk counts of the parts are added up.
+ */
+export const ingestRecords = async (
+  config: WebhookConfig,
+  fileName: string,
+  records: StructuredRecord[],
+  context: {
+    batchId: string;
+    index: number;
+    textContext?: string;
+    signal?: AbortSignal;
+    onProgress?: (progress: number) => void;
+  }
+): Promise<FileUploadOutcome> => {
+  if (!config.ingestionUrl) throw new Error("Ingestion Webhook URL is not configured.");
+
+  const size = Math.max(1, config.structuredData.recordsPerRequest);
+  const count = Math.ceil(records.length / size);
+  const key = `file_${context.index}`;
+  if (records.length === 0) {
+    return { index: context.index, ok: true, result: { key, status: 'rejected', error: "No rows with question, answer or content text." } };
+  }
+  let chunks: number | undefined;
+  let status: ReturnType<typeof parseResultStatus> | undefined;
+  let responseText: string | undefined;
+
+  for (let part = 0; part < count; part++) {
+    context.signal?.throwIfAborted();
+    const payload: StructuredIngestionRequest = {
+      action: 'ingest',
+      source: 'records',
+      fileName,
+      batchId: context.batchId,
+      key,
+      part: { index: part, count },
+      records: records.slice(part * size, (part + 1) * size),
+      ...(context.textContext?.trim() && { textContext: context.textContext })
+    };
+
+    try {
+      const data = await postJson<StructuredIngestionResponse | StructuredIngestionResponse[]>(config, config.ingestionUrl, payload, false, context.signal);
+      const body = Array.isArray(data) ? data[0] : data;
+      responseText = data === undefined ? responseText : JSON.stringify(data);
+      if (typeof body?.chunks === 'number') chunks = (chunks ?? 0) + body.chunks;
+
+      if (body?.status !== undefined) {
+        status = parseResultStatus(body.status);
+        if (status === 'rejected' || status === 'error') {
+          return {
+            index: context.index,
+            ok: true,
+            responseText,
+            result: { key, status, chunks, error: `Rows ${payload.records[0].row}-${payload.records[payload.records.length - 1].row}: ${body.error || 'rejected by the workflow'}` }
+          };
+        }
+      }
+      context.onProgress?.((part + 1) / count);
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') throw error;
+      console.error(`Failed to ingest records of ${fileName}:`, error);
+      const message = error instanceof Error ? error.message : "Unknown error";
+      return {
+        index: context.index,
+        ok: false,
+        error: part > 0 ? `${message} (after ${part * size} of ${records.length} rows)` : message,
+        errorKind: getErrorKind(error)
+      };
+    }
+  }
+
+  return {
+    index: context.index,
+    ok: true,
+    responseText,
+    result: status === undefined ? undefined : { key, status, chunks }
+  };
+};
@@ -0,0 +1,239 @@
+import { ChatAttachment, ChatCitation, ChatMessage, ChatSession, MessageFeedback, MessageRole } from "../types";
+import { createId } from "../utils/id";
+import { isRecord } from "../utils/json";
+import { isHttpUrl } from "../utils/url";
+import { createSession, deriveSessionTitle } from "./sessionStore";
+
+const TRANSCRIPT_FORMAT = 'n8n-chatbot-transcript';
+const TRANSCRIPT_EXPORT_VERSION = 1;
+
+export type TranscriptFormat = 'markdown' | 'json' | 'html';
+
+export interface TranscriptFile {
+  content: string;
+  mimeType: string;
+  fileName: string;
+}
+
+const ROLE_LABELS: Record<MessageRole, string> = {
+  [MessageRole.USER]: 'User',
+  [MessageRole.ASSISTANT]: 'Assistant',
+  [MessageRole.SYSTEM]: 'System'
+};
+
+const formatTimestamp = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+const formatSize = (bytes: number) => `${(bytes / 1024).toFixed(0)} KB`;
+
+const describeSource = (source: ChatCitation) =>
+  [source.documentName, source.page !== undefined && `p. ${source.page}`, source.timestamp].filter(Boolean).join(', ');
+
+const describeFeedback = (feedback: MessageFeedback) =>
+  `${feedback.rating === 'up' ? '👍' : '👎'}${feedback.comment ? ` "${feedback.comment}"` : ''}`;
+
+const toFileName = (title: string, extension: string) => {
+  const base = title.replace(/[^\w\- ]+/g, '').trim().replace(/\s+/g, '-').slice(0, 60) || 'chat';
+  return `${base}.${extension}`;
+};
+
+// Transient UI flags do not belong in a transcript
+const toExportedMessage = ({ isStreaming, isQueued, ...message }: ChatMessage): ChatMessage => message;
+
+const toMarkdown = (session: ChatSession): string => {
+  const lines = [`# ${session.title}`, '', `_Exported ${formatTimestamp(Date.now())}_`, ''];
+  session.messages.forEach(message => {
+    const heading = `### ${ROLE_LABELS[message.role]}${message.isError ? ' (error)' : ''} · ${formatTimestamp(message.timestamp)}`;
+    lines.push(heading, '', message.content, '');
+    message.attachments?.forEach(att => lines.push(`- 📎 ${att.name} (${att.type || 'unknown type'}, ${formatSize(att.size)})`));
+    if (message.attachments?.length) lines.push('');
+    if (message.feedback) lines.push(`_Feedback: ${describeFeedback(message.feedback)}_`, '');
+    if (message.sources?.length) {
+      lines.push('**Sources**', '');
+      message.sources.forEach(source => {
+        const label = describeSource(source);
+        lines.push(`${source.id}. ${isHttpUrl(source.url) ? `[${label}](${source.url})` : label}`);
+      });
+      lines.push('');
+    }
+  });
+  return lines.join('\n');
+};
+
+const toJson = (session: ChatSession): string =>
+  JSON.stringify({
+    format: TRANSCRIPT_FORMAT,
+    version: TRANSCRIPT_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    session: { ...session, messages: session.messages.map(toExportedMessage) }
+  }, null, 2);
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const HTML_STYLES = `
+  body { font-family: 'Inter', system-ui, sans-serif; color: #0f172a; max-width: 760px; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; }
+  h1 { font-size: 1.5rem; margin-bottom: 0.25rem; }
+  .meta { color: #64748b; font-size: 0.8rem; margin-bottom: 2rem; }
+  .message { border-left: 3px solid #cbd5e1; padding: 0.5rem 1rem; margin-bottom: 1.25rem; page-break-inside: avoid; }
+  .message.user { border-color: #4f46e5; }
+  .message.assistant { border-color: #059669; }
+  .message.error { border-color: #dc2626; background: #fef2f2; }
+  .header { font-size: 0.75rem; color: #64748b; margin-bottom: 0.25rem; }
+  .header strong { color: #0f172a; }
+  .content { white-space: pre-wrap; font-size: 0.9rem; }
+  ul { font-size: 0.8rem; color: #475569; margin: 0.5rem 0 0; padding-left: 1.25rem; }
+  a { color: #4f46e5; }
+  @page { margin: 2cm; }
+  @media print { body { margin: 0; max-width: none; } }
+`;
+
+const toHtml = (session: ChatSession): string => {
+  const messages = session.messages.map(message => {
+    const classes = ['message', message.role, message.isError ? 'error' : ''].filter(Boolean).join(' ');
+    const attachments = message.attachments?.length
+      ? `<ul>${message.attachments.map(att => `<li>📎 ${escapeHtml(att.name)} (${escapeHtml(att.type || 'unknown type')}, ${formatSize(att.size)})</li>`).join('')}</ul>`
+      : '';
+    const sources = message.sources?.length
+      ? `<ul>${message.sources.map(source => {
+          const label = `[${source.id}] ${escapeHtml(describeSource(source))}`;
+          return `<li>${isHttpUrl(source.url) ? `<a href="${escapeHtml(source.url)}">${label}</a>` : label}</li>`;
+        }).join('')}</ul>`
+      : '';
+    return `<div class="${classes}">
+  <div class="header"><strong>${ROLE_LABELS[message.role]}</strong>${message.isError ? ' (error)' : ''} · ${escapeHtml(formatTimestamp(message.timestamp))}</div>
+  <div class="content">${escapeHtml(message.content)}</div>${attachments}${sources}${message.feedback ? `<div class="header">Feedback: ${escapeHtml(describeFeedback(message.feedback))}</div>` : ''}
+</div>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<title>${escapeHtml(session.title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(session.title)}</h1>
+<div class="meta">${session.messages.length} messages · started ${escapeHtml(formatTimestamp(session.createdAt))} · exported ${escapeHtml(formatTimestamp(Date.now()))}</div>
+${messages}
+</body>
+</html>`;
+};
+
+/**
+ * Serializes a conversation for download. Only the JSON format can be imported again;
+ * the HTML transcript is styled for printing to PDF.
+ */
+export const exportTranscript = (session: ChatSession, format: TranscriptFormat): TranscriptFile => {
+  switch (format) {
+    case 'markdown':
+      return { content: toMarkdown(session), mimeType: 'text/markdown', fileName: toFileName(session.title, 'md') };
+    case 'json':
+      return { content: toJson(session), mimeType: 'application/json', fileName: toFileName(session.title, 'json') };
+    case 'html':
+      return { content: toHtml(session), mimeType: 'text/html', fileName: toFileName(session.title, 'html') };
+  }
+};
+
+const isMessageRole = (value: unknown): value is MessageRole =>
+  Object.values(MessageRole).includes(value as MessageRole);
+
+const optionalString = (value: unknown) => typeof value === 'string' ? value : undefined;
+const optionalNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+const nonEmpty = <T>(items: T[]) => items.length > 0 ? items : undefined;
+
+const parseAttachments = (raw: unknown): ChatAttachment[] | undefined =>
+  Array.isArray(raw)
+    ? nonEmpty(raw.filter(isRecord).flatMap(a => typeof a.name === 'string'
+        ? [{ name: a.name, type: optionalString(a.type) ?? '', size: optionalNumber(a.size) ?? 0 }]
+        : []))
+    : undefined;
+
+// Only http(s) links survive, since the HTML transcript turns them into hrefs
+const parseSources = (raw: unknown): ChatCitation[] | undefined =>
+  Array.isArray(raw)
+    ? nonEmpty(raw.filter(isRecord).flatMap((c, index) => typeof c.documentName === 'string'
+        ? [{
+            id: optionalNumber(c.id) ?? index + 1,
+            documentName: c.documentName,
+            page: optionalNumber(c.page),
+            timestamp: optionalString(c.timestamp),
+            snippet: optionalString(c.snippet),
+            score: optionalNumber(c.score),
+            url: isHttpUrl(c.url) ? c.url : undefined
+          }]
+        : []))
+    : undefined;
+
+// A rating that was in flight or failed when exported is kept only in the chat
+const parseFeedback = (raw: unknown): MessageFeedback | undefined =>
+  isRecord(raw) && (raw.rating === 'up' || raw.rating === 'down')
+    ? { rating: raw.rating, comment: optionalString(raw.comment), status: raw.status === 'sent' ? 'sent' : 'local' }
+    : undefined;
+
+const parseSuggestions = (raw: unknown): string[] | undefined =>
+  Array.isArray(raw) ? nonEmpty(raw.filter((s): s is string => typeof s === 'string' && s.trim() !== '')) : undefined;
+
+/**
+ * Rebuilds messages from untrusted JSON field by field; unknown fields and malformed
+ * optional ones are dropped rather than copied into the session.
+ */
+const parseMessages = (raw: unknown[]): ChatMessage[] =>
+  raw.filter(isRecord).flatMap((m): ChatMessage[] => {
+    if (typeof m.content !== 'string' || !isMessageRole(m.role)) return [];
+    const alternatives = Array.isArray(m.alternatives)
+      ? nonEmpty(m.alternatives
+          .filter((version): version is unknown[] => Array.isArray(version))
+          .map(parseMessages)
+          .filter(version => version.length > 0))
+      : undefined;
+    return [{
+      id: typeof m.id === 'string' && m.id ? m.id : createId(),
+      role: m.role,
+      content: m.content,
+      timestamp: optionalNumber(m.timestamp) ?? Date.now(),
+      isError: m.isError === true || undefined,
+      attachments: parseAttachments(m.attachments),
+      sources: parseSources(m.sources),
+      suggestions: parseSuggestions(m.suggestions),
+      feedback: parseFeedback(m.feedback),
+      alternatives,
+      alternativeIndex: alternatives ? optionalNumber(m.alternativeIndex) : undefined
+    }];
+  });
+
+/**
+ * Parses an exported JSON transcript (or a bare array of messages) into a new session.
+ * The session always gets a fresh id so it never collides with, or continues the N8N memory of, the original.
+ */
+export const importTranscript = (json: string): ChatSession => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (e) {
+    throw new Error("The selected file is not valid JSON.");
+  }
+
+  const rawSession = Array.isArray(parsed) ? { messages: parsed } : isRecord(parsed) && isRecord(parsed.session) ? parsed.session : undefined;
+  if (!rawSession || !Array.isArray(rawSession.messages)) {
+    throw new Error("No conversation found in the selected file. Only JSON transcripts can be imported.");
+  }
+  if (isRecord(parsed) && typeof parsed.version === 'number' && parsed.version > TRANSCRIPT_EXPORT_VERSION) {
+    throw new Error("This transcript was exported by a newer version of the app.");
+  }
+
+  const messages = parseMessages(rawSession.messages);
+  if (messages.length === 0) {
+    throw new Error("The transcript contains no messages.");
+  }
+
+  const session = createSession();
+  const title = 'title' in rawSession && typeof rawSession.title === 'string' && rawSession.title.trim() ? rawSession.title.trim() : deriveSessionTitle(messages);
+  return {
+    ...session,
+    title,
+    titleEdited: true,
+    createdAt: 'createdAt' in rawSession && typeof rawSession.createdAt === 'number' ? rawSession.createdAt : session.createdAt,
+    messages
+  };
+};
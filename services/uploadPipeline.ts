@@ -0,0 +1,322 @@
+import { DocumentChunk, FileUploadOutcome, WebhookConfig } from "../types";
+import {
+  CHUNK_RETRY_BASE_DELAY_MS,
+  LOCAL_STORAGE_UPLOAD_PROGRESS_KEY,
+  MAX_CHUNK_RETRIES,
+  IDEMPOTENCY_KEY_FIELD,
+  UPLOAD_CHUNK_SIZE_MB,
+  UPLOAD_RESUME_TTL_MS
+} from "../constants";
+import { createId } from "../utils/id";
+import { clampChunkOverlap, clampChunkSize } from "../utils/chunking";
+import { prepareWebhookRequest } from "./webhookAuth";
+import { classifyErrorResponse, getErrorKind, WebhookError, WebhookTimeoutError, WebhookUnreachableError } from "./errors";
+
+export interface UploadOptions {
+  /** Called with the fraction (0..1) of each file's bytes that have been sent. */
+  onFileProgress?: (index: number, progress: number) => void;
+  /** Text chunks extracted in the browser, by file index. */
+  documentChunks?: (DocumentChunk[] | undefined)[];
+  /** Reused when a batch is resent from the outbox; a new id is generated otherwise. */
+  batchId?: string;
+  /** Idempotency key per file index; defaults to `<batchId>:<index>`. */
+  idempotencyKeys?: string[];
+  signal?: AbortSignal;
+}
+
+export interface IngestionContext {
+  batchId: string;
+  textContext?: string;
+}
+
+interface ResumableUpload {
+  uploadId: string;
+  chunkSize: number;
+  completedChunks: number[];
+  updatedAt: number;
+}
+
+const CHUNK_SIZE_BYTES = UPLOAD_CHUNK_SIZE_MB * 1024 * 1024;
+
+const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+// Network drops, server-side timeouts, rate limits and server errors are worth retrying; other 4xx
+// are not. A client-side timeout is not retried: the workflow may still be ingesting the file.
+const isRetryable = (error: unknown) =>
+  error instanceof WebhookUnreachableError ||
+  (error instanceof WebhookError && error.status !== undefined &&
+    (error.status === 408 || error.status === 429 || error.status >= 500));
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Upload aborted', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// --- Resume state (localStorage) ---
+
+const loadResumeState = (): Record<string, ResumableUpload> => {
+  try {
+    const state: Record<string, ResumableUpload> = JSON.parse(localStorage.getItem(LOCAL_STORAGE_UPLOAD_PROGRESS_KEY) || '{}');
+    const cutoff = Date.now() - UPLOAD_RESUME_TTL_MS;
+    Object.keys(state).forEach(key => {
+      if (state[key].updatedAt < cutoff) delete state[key];
+    });
+    return state;
+  } catch (e) {
+    return {};
+  }
+};
+
+const updateResumeState = (key: string, entry: ResumableUpload | null) => {
+  const state = loadResumeState();
+  if (entry) {
+    state[key] = entry;
+  } else {
+    delete state[key];
+  }
+  localStorage.setItem(LOCAL_STORAGE_UPLOAD_PROGRESS_KEY, JSON.stringify(state));
+};
+
+const getFileFingerprint = (url: string, file: File) =>
+  `${url}|${file.name}|${file.size}|${file.lastModified}`;
+
+// --- Transport ---
+
+/**
+ * POSTs a prepared body with XMLHttpRequest so upload progress events are available.
+ */
+const postWithProgress = (
+  url: string,
+  headers: Record<string, string>,
+  body: FormData | Uint8Array | string,
+  timeoutSeconds: number,
+  onProgress: (fraction: number) => void,
+  signal?: AbortSignal
+): Promise<string> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Upload aborted', 'AbortError'));
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    const onAbort = () => xhr.abort();
+    xhr.onloadend = () => signal?.removeEventListener('abort', onAbort);
+    xhr.open('POST', url);
+    xhr.timeout = Math.max(0, timeoutSeconds) * 1000;
+    Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable && e.total > 0) onProgress(e.loaded / e.total);
+    };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        onProgress(1);
+        resolve(xhr.responseText);
+      } else {
+        reject(classifyErrorResponse(xhr.status, xhr.responseText, xhr.statusText, url));
+      }
+    };
+    xhr.onerror = () => reject(new WebhookUnreachableError("Network error while uploading. Check your connection and CORS settings."));
+    xhr.ontimeout = () => reject(new WebhookTimeoutError(timeoutSeconds));
+    xhr.onabort = () => reject(new DOMException('Upload aborted', 'AbortError'));
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    xhr.send(body);
+  });
+
+/**
+ * Sends one request, retrying transient failures with exponential backoff.
+ * Every attempt carries the same idempotency key.
+ */
+const postWithRetry = async (
+  config: WebhookConfig,
+  buildForm: () => FormData,
+  idempotencyKey: string,
+  onProgress: (fraction: number) => void,
+  signal?: AbortSignal
+): Promise<string> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      // Re-prepare on every attempt so signatures and JWTs carry a fresh timestamp
+      const formData = buildForm();
+      formData.append(IDEMPOTENCY_KEY_FIELD, idempotencyKey);
+      const request = await prepareWebhookRequest(config, formData);
+      return await postWithProgress(config.ingestionUrl, request.headers, request.body, config.timeouts.uploadSeconds, onProgress, signal);
+    } catch (error) {
+      if (isAbortError(error) || !isRetryable(error) || attempt >= MAX_CHUNK_RETRIES) throw error;
+      onProgress(0);
+      await wait(CHUNK_RETRY_BASE_DELAY_MS * 2 ** attempt, signal);
+    }
+  }
+};
+
+// --- Form building ---
+
+/**
+ * Common ingestion fields. Each file travels as `file_0` so existing workflows
+ * keep reading the same binary property. `message` / `chatInput` are left empty
+ * unless `withText` is set, so the text context is only sent once per batch.
+ */
+const buildIngestionForm = (context: IngestionContext, fields: Record<string, string> = {}, withText = true) => {
+  const formData = new FormData();
+  const text = withText ? context.textContext || "" : "";
+  formData.append('message', text);
+  formData.append('chatInput', text);
+  formData.append('batchId', context.batchId);
+  // Kept for workflows that key ingestion runs on sessionId
+  formData.append('sessionId', context.batchId);
+  Object.entries(fields).forEach(([name, value]) => formData.append(name, value));
+  return formData;
+};
+
+// A null part sends only the metadata, for files ingested from their extracted text alone
+const appendFilePart = (formData: FormData, file: File, part: Blob | null, index: number, total: number) => {
+  if (part) formData.append('file_0', part, file.name);
+  // Sending metadata as JSON string is safest for N8N Webhook node parsing
+  formData.append('file_metadata', JSON.stringify({
+    name: file.name,
+    type: file.type,
+    size: file.size,
+    key: 'file_0',
+    batch_index: index,
+    binary_included: part !== null
+  }));
+  formData.append('file_count', '1');
+  formData.append('batch_file_index', index.toString());
+  formData.append('batch_file_total', total.toString());
+};
+
+const appendDocumentChunks = (formData: FormData, config: WebhookConfig, file: File, chunks: DocumentChunk[]) => {
+  formData.append('document_chunks', JSON.stringify({
+    source: file.name,
+    chunkSize: clampChunkSize(config.preprocessing.chunkSize),
+    chunkOverlap: clampChunkOverlap(config.preprocessing.chunkOverlap, config.preprocessing.chunkSize),
+    chunks
+  }));
+};
+
+// --- Pipeline ---
+
+/**
+ * Uploads a single file: whole if it fits in one chunk, otherwise as byte ranges
+ * tagged with upload_id / chunk_index / chunk_total for N8N to reassemble.
+ * Completed chunks are remembered so an interrupted upload resumes where it stopped.
+ * Text chunks extracted in the browser travel with the last request, or replace the
+ * binary entirely when pre-processing is set to send them instead.
+ * The batch's text context travels only with the request that completes the first file
+ * (index 0), which is always sent, even when an interrupted upload resumes.
+ */
+const uploadFile = async (
+  config: WebhookConfig,
+  file: File,
+  index: number,
+  total: number,
+  context: IngestionContext,
+  options: UploadOptions
+): Promise<string> => {
+  const idempotencyKey = options.idempotencyKeys?.[index] ?? `${context.batchId}:${index}`;
+  const reportProgress = (fraction: number) => options.onFileProgress?.(index, Math.min(1, fraction));
+  const documentChunks = options.documentChunks?.[index];
+  const hasDocumentChunks = !!documentChunks && documentChunks.length > 0;
+  const sendBinary = !hasDocumentChunks || config.preprocessing.mode === 'alongside';
+  const carriesText = index === 0;
+
+  if (!sendBinary || file.size <= CHUNK_SIZE_BYTES) {
+    return postWithRetry(config, () => {
+      const formData = buildIngestionForm(context, {}, carriesText);
+      appendFilePart(formData, file, sendBinary ? file : null, index, total);
+      if (hasDocumentChunks) appendDocumentChunks(formData, config, file, documentChunks);
+      return formData;
+    }, idempotencyKey, reportProgress, options.signal);
+  }
+
+  const fingerprint = getFileFingerprint(config.ingestionUrl, file);
+  const stored = loadResumeState()[fingerprint];
+  const upload: ResumableUpload = stored && stored.chunkSize === CHUNK_SIZE_BYTES
+    ? stored
+    : { uploadId: createId(), chunkSize: CHUNK_SIZE_BYTES, completedChunks: [], updatedAt: Date.now() };
+
+  const chunkTotal = Math.ceil(file.size / CHUNK_SIZE_BYTES);
+  let sentBytes = upload.completedChunks.length * CHUNK_SIZE_BYTES;
+  reportProgress(sentBytes / file.size);
+
+  let lastResponse = '';
+  for (let chunkIndex = 0; chunkIndex < chunkTotal; chunkIndex++) {
+    if (upload.completedChunks.includes(chunkIndex)) continue;
+
+    const start = chunkIndex * CHUNK_SIZE_BYTES;
+    const chunk = file.slice(start, Math.min(start + CHUNK_SIZE_BYTES, file.size));
+
+    lastResponse = await postWithRetry(config, () => {
+      const formData = buildIngestionForm(context, {
+        upload_id: upload.uploadId,
+        chunk_index: chunkIndex.toString(),
+        chunk_total: chunkTotal.toString(),
+        chunk_offset: start.toString(),
+        chunk_size: chunk.size.toString()
+      }, carriesText && chunkIndex === chunkTotal - 1);
+      appendFilePart(formData, file, chunk, index, total);
+      if (hasDocumentChunks && chunkIndex === chunkTotal - 1) appendDocumentChunks(formData, config, file, documentChunks);
+      return formData;
+    }, `${idempotencyKey}:${chunkIndex}`, (fraction) => reportProgress((sentBytes + fraction * chunk.size) / file.size), options.signal);
+
+    sentBytes += chunk.size;
+    upload.completedChunks.push(chunkIndex);
+    upload.updatedAt = Date.now();
+    updateResumeState(fingerprint, upload);
+  }
+
+  updateResumeState(fingerprint, null);
+  return lastResponse;
+};
+
+/**
+ * Uploads files one by one so a single failure does not sink the whole batch.
+ * Resolves with an outcome per file; only aborts reject.
+ */
+export const uploadFilesIndividually = async (
+  config: WebhookConfig,
+  files: File[],
+  context: IngestionContext,
+  options: UploadOptions = {}
+): Promise<FileUploadOutcome[]> => {
+  const outcomes: FileUploadOutcome[] = [];
+
+  for (let index = 0; index < files.length; index++) {
+    try {
+      const responseText = await uploadFile(config, files[index], index, files.length, context, options);
+      outcomes.push({ index, ok: true, responseText });
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.error(`Failed to upload ${files[index].name} to N8N:`, error);
+      outcomes.push({
+        index,
+        ok: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+        errorKind: getErrorKind(error)
+      });
+    }
+  }
+
+  return outcomes;
+};
+
+/**
+ * Sends the text context on its own when a batch has no files.
+ */
+export const sendTextOnlyIngestion = (
+  config: WebhookConfig,
+  context: IngestionContext,
+  signal?: AbortSignal
+): Promise<string> =>
+  postWithRetry(config, () => buildIngestionForm(context, { file_count: '0' }), context.batchId, () => {}, signal);
@@ -0,0 +1,87 @@
+import { CrawlOptions, UrlIngestionOutcome, UrlIngestionRequest, UrlIngestionResponse, UrlSourceKind, WebhookConfig } from "../types";
+import { postJson } from "./jsonWebhook";
+import { getErrorKind } from "./errors";
+import { parseResultStatus } from "./ingestionResults";
+
+export interface UrlSource {
+  url: string;
+  kind: UrlSourceKind;
+  crawl: CrawlOptions;
+}
+
+/**
+ * Splits pasted text (one URL per line, or separated by spaces or commas) into
+ * normalized http(s) URLs and the entries that are not valid URLs.
+ */
+export const parseUrlList = (text: string): { urls: string[]; invalid: string[] } => {
+  const urls: string[] = [];
+  const invalid: string[] = [];
+  text.split(/[\s,]+/).filter(Boolean).forEach(entry => {
+    try {
+      const hasScheme = /^[a-z][a-z\d+.-]*:/i.test(entry);
+      const url = new URL(hasScheme ? entry : `https://${entry}`);
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new Error();
+      // Without a scheme, only accept things that look like domains (not stray words)
+      if (!hasScheme && !url.hostname.includes('.') && url.hostname !== 'localhost') throw new Error();
+      if (!urls.includes(url.href)) urls.push(url.href);
+    } catch (e) {
+      invalid.push(entry);
+    }
+  });
+  return { urls, invalid };
+};
+
+// Strips list or log state (status, pages, errors) from a source before it is sent again
+export const toUrlSource = ({ url, kind, crawl }: UrlSource): UrlSource => ({ url, kind, crawl });
+
+export const detectUrlSourceKind = (url: string): UrlSourceKind =>
+  /sitemap[^/]*\.xml(\.gz)?$|\.xml$/i.test(new URL(url).pathname) ? 'sitemap' : 'page';
+
+/**
+ * Asks the ingestion workflow to fetch and index a web page or sitemap.
+ * Like file uploads, failures are reported in the outcome rather than thrown; only aborts reject.
+ */
+export const ingestUrlSource = async (
+  config: WebhookConfig,
+  source: UrlSource,
+  context: { batchId: string; index: number; textContext?: string; signal?: AbortSignal }
+): Promise<UrlIngestionOutcome> => {
+  if (!config.ingestionUrl) throw new Error("Ingestion Webhook URL is not configured.");
+
+  const payload: UrlIngestionRequest = {
+    action: 'ingest',
+    source: 'url',
+    url: source.url,
+    kind: source.kind,
+    crawl: source.crawl,
+    batchId: context.batchId,
+    key: `url_${context.index}`,
+    ...(context.textContext?.trim() && { textContext: context.textContext })
+  };
+
+  try {
+    const data = await postJson<UrlIngestionResponse | UrlIngestionResponse[]>(config, config.ingestionUrl, payload, false, context.signal);
+    const body = Array.isArray(data) ? data[0] : data;
+    return {
+      index: context.index,
+      ok: true,
+      responseText: data === undefined ? undefined : JSON.stringify(data),
+      pages: typeof body?.pages === 'number' ? body.pages : undefined,
+      result: body?.status === undefined ? undefined : {
+        key: payload.key,
+        status: parseResultStatus(body.status),
+        chunks: typeof body.chunks === 'number' ? body.chunks : undefined,
+        error: body.error || undefined
+      }
+    };
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') throw error;
+    console.error(`Failed to ingest ${source.url}:`, error);
+    return {
+      index: context.index,
+      ok: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+      errorKind: getErrorKind(error)
+    };
+  }
+};
@@ -0,0 +1,97 @@
+import { WebhookAuth, WebhookConfig } from "../types";
+import { JWT_TTL_SECONDS } from "../constants";
+
+const encoder = new TextEncoder();
+
+const toBase64Url = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+
+const hmacSha256 = async (secret: string, data: Uint8Array): Promise<Uint8Array> => {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return new Uint8Array(await crypto.subtle.sign('HMAC', key, data));
+};
+
+/**
+ * Signs a short-lived HS256 JWT, accepted by the N8N Webhook node's JWT Auth
+ * when its credential uses the same passphrase.
+ */
+const signJwt = async (secret: string): Promise<string> => {
+  const now = Math.floor(Date.now() / 1000);
+  const header = toBase64Url(encoder.encode(JSON.stringify({ alg: 'HS256', typ: 'JWT' })));
+  const payload = toBase64Url(encoder.encode(JSON.stringify({ iat: now, exp: now + JWT_TTL_SECONDS })));
+  const signature = await hmacSha256(secret, encoder.encode(`${header}.${payload}`));
+  return `${header}.${payload}.${toBase64Url(signature)}`;
+};
+
+const getAuthHeaders = async (auth: WebhookAuth): Promise<Record<string, string>> => {
+  switch (auth.type) {
+    case 'header':
+      return auth.headerName.trim() ? { [auth.headerName.trim()]: auth.headerValue } : {};
+    case 'basic': {
+      // Encode as UTF-8 first so non-ASCII credentials survive btoa
+      const credentials = String.fromCharCode(...encoder.encode(`${auth.username}:${auth.password}`));
+      return { Authorization: `Basic ${btoa(credentials)}` };
+    }
+    case 'jwt': {
+      const token = auth.jwtSecret ? await signJwt(auth.jwtSecret) : auth.jwtToken;
+      return token ? { Authorization: `Bearer ${token}` } : {};
+    }
+    default:
+      return {};
+  }
+};
+
+/**
+ * Builds the headers and body for a webhook request: custom profile headers,
+ * authentication and, when enabled, an HMAC-SHA256 signature.
+ *
+ * Signing needs the exact bytes on the wire, so a FormData body is serialized up front
+ * and sent as a pre-encoded multipart body with its boundary in Content-Type.
+ * The signature covers `"<timestamp>." + body`; verify it in N8N against the raw body.
+ * String bodies (JSON) are signed as UTF-8; callers set their own Content-Type.
+ */
+export const prepareWebhookRequest = async (
+  config: WebhookConfig,
+  body: FormData | string
+): Promise<{ headers: Record<string, string>; body: FormData | Uint8Array | string }> => {
+  const headers: Record<string, string> = {};
+  config.headers.forEach(({ name, value }) => {
+    if (name.trim()) headers[name.trim()] = value;
+  });
+  Object.assign(headers, await getAuthHeaders(config.auth));
+
+  if (!config.signing.enabled || !config.signing.secret) {
+    return { headers, body };
+  }
+
+  let bytes: Uint8Array;
+  if (typeof body === 'string') {
+    bytes = encoder.encode(body);
+  } else {
+    const serialized = new Response(body);
+    const contentType = serialized.headers.get('Content-Type');
+    if (contentType) headers['Content-Type'] = contentType;
+    bytes = new Uint8Array(await serialized.arrayBuffer());
+  }
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+
+  const prefix = encoder.encode(`${timestamp}.`);
+  const signedPayload = new Uint8Array(prefix.length + bytes.length);
+  signedPayload.set(prefix);
+  signedPayload.set(bytes, prefix.length);
+  const signature = await hmacSha256(config.signing.secret, signedPayload);
+
+  headers[config.signing.timestampHeader || 'X-Signature-Timestamp'] = timestamp;
+  headers[config.signing.signatureHeader || 'X-Signature'] = `sha256=${toHex(signature)}`;
+
+  return { headers, body: bytes };
+};
@@ -10,26 +10,543 @@ export interface ChatAttachment {
   size: number;
 }
 
+/**
+ * A retrieved source backing an assistant answer. The answer text refers to it
+ * with an inline `[id]` marker.
+ */
+export interface ChatCitation {
+  id: number;           // 1-based marker number
+  documentName: string;
+  page?: number;
+  timestamp?: string;   // Position in audio/video sources, e.g. "12:34"
+  snippet?: string;     // Retrieved chunk text
+  score?: number;       // Retrieval similarity, usually 0..1
+  url?: string;
+}
+
 export interface ChatMessage {
   id: string;
   role: MessageRole;
   content: string;
   timestamp: number;
   isError?: boolean;
+  isStreaming?: boolean; // True while partial tokens are still arriving
+  isQueued?: boolean;    // Waiting in the outbox until the chat webhook is reachable
   attachments?: ChatAttachment[];
+  sources?: ChatCitation[];
+  suggestions?: string[]; // Follow-up questions offered by the workflow
+  feedback?: MessageFeedback;
+  // Other versions of the conversation from this message on, created by edits and regenerations
+  alternatives?: ChatMessage[][];
+  alternativeIndex?: number; // Position of this version among all versions
+}
+
+export type FeedbackRating = 'up' | 'down';
+
+export interface MessageFeedback {
+  rating: FeedbackRating;
+  comment?: string;
+  // 'local' when no feedback webhook is configured, so the rating is only kept in the chat
+  status: 'sending' | 'sent' | 'error' | 'local';
+  error?: string;
+}
+
+export interface ChatSession {
+  id: string;           // UUID, also sent to N8N as the memory sessionId
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  titleEdited?: boolean; // Stop deriving the title from the first message once renamed
+  remoteSessionId?: string; // Session id returned by the workflow, sent instead of `id` once known
+  messages: ChatMessage[];
+}
+
+export interface WebhookHeader {
+  name: string;
+  value: string;
+}
+
+// Mirrors the N8N Webhook node "Authentication" options
+export type WebhookAuthType = 'none' | 'header' | 'basic' | 'jwt';
+
+export interface WebhookAuth {
+  type: WebhookAuthType;
+  headerName: string;  // Header Auth
+  headerValue: string;
+  username: string;    // Basic Auth
+  password: string;
+  jwtToken: string;    // JWT Auth: a pre-issued token...
+  jwtSecret: string;   // ...or a shared secret used to sign a short-lived HS256 token per request
+}
+
+export interface WebhookSigning {
+  enabled: boolean;
+  secret: string;
+  signatureHeader: string; // Carries `sha256=<hex HMAC of "<timestamp>." + raw body>`
+  timestampHeader: string; // Unix seconds, lets the workflow reject replays
+}
+
+/**
+ * Form field names used when posting a chat message. An empty name omits the field.
+ */
+export interface RequestFieldNames {
+  message: string;
+  chatInput: string;
+  sessionId: string;
+  history: string;
+}
+
+/**
+ * Path expressions (e.g. `0.output`, `data.answer`, `choices[0].message.content`)
+ * locating each part of a JSON chat response. Empty paths fall back to auto-detection.
+ */
+export interface ResponseMapping {
+  answerPath: string;
+  sourcesPath: string;
+  sessionIdPath: string;
+  suggestionsPath: string;
+}
+
+/**
+ * Optional in-browser text extraction and chunking before ingestion.
+ */
+export interface PreprocessOptions {
+  enabled: boolean;
+  mode: 'alongside' | 'instead'; // Send chunks with the binary, or instead of it
+  chunkSize: number;             // Characters per chunk
+  chunkOverlap: number;          // Characters repeated between consecutive chunks
+}
+
+/**
+ * Per-request time limits in seconds; 0 waits indefinitely.
+ */
+export interface RequestTimeouts {
+  requestSeconds: number; // Chat and document requests: until the reply starts, and between streamed chunks
+  uploadSeconds: number; // Per ingestion request (each chunk of a large file)
+}
+
+export type HistoryStrategy = 'all' | 'turns' | 'tokens' | 'none';
+
+/**
+ * Which earlier messages are sent in the `history` field of each chat request.
+ */
+export interface HistoryOptions {
+  strategy: HistoryStrategy; // 'none' relies on the workflow's own memory
+  maxTurns: number;          // 'turns': a turn is a question with its replies
+  maxTokens: number;         // 'tokens': estimated with a local tokenizer approximation
+  excludeErrors: boolean;
+  excludeSystem: boolean;
+  summarize: boolean;        // Replace dropped turns with a condensed summary message
+}
+
+/**
+ * Checked in the browser as files are added to the Upload tab; 0 disables a limit.
+ */
+export interface UploadLimits {
+  maxDocumentMb: number;
+  maxImageMb: number;
+  maxAudioMb: number;
+  maxVideoMb: number;
+  maxBatchMb: number;    // All files waiting to be sent together
+  maxBatchFiles: number;
+}
+
+/**
+ * In-browser processing of images before they are attached or uploaded.
+ */
+export interface MediaOptions {
+  resizeImages: boolean;
+  maxImageDimension: number; // Longest side in pixels
+  imageQuality: number;      // 0..1, JPEG and WebP re-encoding
+  stripMetadata: boolean;    // Remove EXIF (GPS, camera) and text metadata from JPEG and PNG
+}
+
+export interface StructuredDataOptions {
+  recordsPerRequest: number; // Rows of a CSV/XLSX/JSON file sent per ingestion request
+}
+
+export interface IngestionLogOptions {
+  retainFiles: boolean; // Keep file contents in the browser so a batch can be re-run later
+}
+
+export interface VoiceOptions {
+  maxSeconds: number; // Recording stops automatically after this long
 }
 
 export interface WebhookConfig {
   ingestionUrl: string; // URL to upload files/train
   chatUrl: string;      // URL to send chat messages
+  listDocumentsUrl: string;  // Optional: lists ingested documents (ListDocumentsRequest)
+  deleteDocumentUrl: string; // Optional: removes a document from the vector store (DeleteDocumentRequest)
+  feedbackUrl: string;       // Optional: receives answer ratings (FeedbackRequest)
+  headers: WebhookHeader[]; // Extra headers sent with every webhook request
+  auth: WebhookAuth;
+  signing: WebhookSigning;
+  requestFields: RequestFieldNames;
+  responseMapping: ResponseMapping;
+  preprocessing: PreprocessOptions;
+  timeouts: RequestTimeouts;
+  history: HistoryOptions;
+  voice: VoiceOptions;
+  media: MediaOptions;
+  uploadLimits: UploadLimits;
+  ingestionLog: IngestionLogOptions;
+  structuredData: StructuredDataOptions;
+}
+
+export interface WebhookProfile extends WebhookConfig {
+  id: string;
+  name: string; // e.g. "Dev", "Staging", "Prod - Support Bot"
+}
+
+export interface ProfileState {
+  profiles: WebhookProfile[];
+  activeProfileId: string;
+}
+
+/**
+ * Lifecycle of a file in the Upload tab:
+ * pending -> queued -> uploading -> processing -> indexed | success | rejected | error.
+ * `success` means N8N accepted the file without reporting a per-file result.
+ * `invalid` files failed validation in the browser and are never sent.
+ */
+export type FileUploadStatus =
+  | 'invalid'
+  | 'pending'
+  | 'queued'
+  | 'uploading'
+  | 'processing'
+  | 'indexed'
+  | 'success'
+  | 'rejected'
+  | 'error';
+
+// A page (PDF) or heading-delimited section (DOCX) of extracted text
+export interface ExtractedSection {
+  text: string;
+  page?: number;
+  section?: string;
+}
+
+/**
+ * A chunk of extracted text, sent to N8N as JSON in the `document_chunks` field:
+ * `{ source, chunkSize, chunkOverlap, chunks: DocumentChunk[] }`.
+ */
+export interface DocumentChunk {
+  index: number;
+  text: string;
+  page?: number;
+  section?: string;
+  start: number; // Character offsets within the page/section
+  end: number;
+}
+
+export interface FileExtraction {
+  status: 'extracting' | 'done' | 'empty' | 'unsupported' | 'error';
+  sections: ExtractedSection[];
+  charCount: number;
+  pageCount?: number;
+  error?: string;
 }
 
 export interface FileUploadItem {
   id: string;
   file: File;
   previewUrl?: string;
-  status: 'pending' | 'uploading' | 'success' | 'error';
+  status: FileUploadStatus;
   type: 'image' | 'video' | 'audio' | 'document' | 'other';
+  progress?: number; // 0..1 of bytes sent while uploading
+  chunks?: number;   // Vector store chunks reported by the workflow
+  error?: string;    // Failure, rejection or validation reason
+  extraction?: FileExtraction; // Present when in-browser pre-processing is enabled
+  hash?: string;     // Hex SHA-256 of the content, when it could be computed
+  table?: TableImport; // CSV, XLSX and JSON files, parsed as they are added
+}
+
+/**
+ * Per-file result returned by the ingestion workflow, joined on the `key`
+ * sent in `file_metadata`. Expected response shape:
+ * `{ "files": [{ "key": "file_0", "status": "indexed", "chunks": 12 }] }`
+ * An unrecognized status word is kept as `success`: delivered, outcome unknown.
+ */
+export interface IngestionFileResult {
+  key: string;
+  status: 'indexed' | 'success' | 'processing' | 'rejected' | 'error';
+  chunks?: number;
+  error?: string;
+}
+
+// What went wrong with a webhook call; drives retry, queueing and the advice shown
+export type WebhookErrorKind =
+  | 'network'               // Unreachable: offline, DNS, refused, CORS or gateway errors
+  | 'auth'                  // 401 / 403
+  | 'not-found'             // 404: production webhook not registered (workflow inactive)
+  | 'test-webhook-inactive' // 404 on a test URL that is not listening
+  | 'workflow'              // 5xx: the workflow failed while running
+  | 'timeout'
+  | 'payload-too-large'     // 413
+  | 'http';                 // Any other non-2xx status
+
+export interface FileUploadOutcome {
+  index: number; // Position of the file in the uploaded batch
+  ok: boolean;
+  responseText?: string;
+  result?: IngestionFileResult; // Present when the workflow reported on this file
+  error?: string;
+  errorKind?: WebhookErrorKind; // `network` means N8N was unreachable, so the file can be queued
+}
+
+// --- Structured data ---
+// CSV, XLSX and JSON files can be sent as rows of JSON records instead of as a binary file.
+
+// What a column holds; `metadata` columns are sent as key/value pairs with each record
+export type ColumnRole = 'question' | 'answer' | 'content' | 'metadata' | 'ignore';
+
+export interface TableData {
+  columns: string[];
+  rows: string[][];  // Cell values as text, one entry per column
+  sheet?: string;    // XLSX: the worksheet that was read
+  truncated?: boolean; // More rows than MAX_TABLE_ROWS; the rest were dropped
+}
+
+export interface TableImport {
+  status: 'parsing' | 'done' | 'error';
+  data?: TableData;
+  mapping: ColumnRole[]; // One role per column
+  sendAsRecords: boolean;
+  error?: string;
+}
+
+export interface StructuredRecord {
+  row: number; // 1-based position among the non-empty data rows of the file
+  question?: string;
+  answer?: string;
+  content?: string;
+  metadata: Record<string, string>;
+}
+
+/**
+ * Sent to `ingestionUrl` as JSON, one request per `recordsPerRequest` rows of a file.
+ * Result shape is the same as for URL sources: `{ "status": "indexed", "chunks": 40 }`.
+ */
+export interface StructuredIngestionRequest {
+  action: 'ingest';
+  source: 'records';
+  fileName: string;
+  batchId: string;
+  key: string; // `file_<index>` within the batch, shared by every part of the file
+  part: { index: number; count: number };
+  records: StructuredRecord[];
+  textContext?: string;
+}
+
+export interface StructuredIngestionResponse {
+  status?: string;
+  chunks?: number;
+  error?: string;
+}
+
+// --- URL sources ---
+// Web pages ingested by the workflow itself: the browser only sends the URL and crawl options.
+
+export type UrlSourceKind = 'page' | 'sitemap';
+
+export interface CrawlOptions {
+  depth: number;             // Levels of links followed from the page; 0 ingests only the page itself
+  includePatterns: string[]; // URL globs, e.g. "https://docs.example.com/guides/*"; empty includes all
+  excludePatterns: string[];
+}
+
+export interface UrlSourceItem {
+  id: string;
+  url: string;
+  kind: UrlSourceKind;
+  crawl: CrawlOptions;
+  status: FileUploadStatus;
+  pages?: number;  // Pages the workflow reported ingesting
+  chunks?: number;
+  error?: string;
+}
+
+/**
+ * Sent to `ingestionUrl` as JSON, one request per URL source. The workflow fetches
+ * the page (or every page listed in the sitemap) and follows links up to `crawl.depth`.
+ */
+export interface UrlIngestionRequest {
+  action: 'ingest';
+  source: 'url';
+  url: string;
+  kind: UrlSourceKind;
+  crawl: CrawlOptions;
+  batchId: string;
+  key: string; // `url_<index>` within the batch
+  textContext?: string;
+}
+
+/** Returned by `ingestionUrl` for a URL source. Status words are read like per-file results. */
+export interface UrlIngestionResponse {
+  status?: string;
+  pages?: number;
+  chunks?: number;
+  error?: string;
+}
+
+export interface UrlIngestionOutcome extends FileUploadOutcome {
+  pages?: number;
+}
+
+export interface IngestionBatchResult {
+  batchId: string;
+  files: FileUploadOutcome[];
+  responseText?: string; // Response of a text-only batch
+}
+
+// --- Outbox ---
+// Requests that could not reach N8N, persisted in IndexedDB (File blobs included)
+// and retried with backoff once the host is reachable again.
+
+export type OutboxStatus = 'pending' | 'sending' | 'failed';
+
+interface OutboxEntryBase {
+  id: string;
+  profileId: string;      // Profile whose webhooks and credentials the request uses
+  createdAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+  status: OutboxStatus;   // `failed` entries wait for a manual retry
+  lastError?: string;
+}
+
+export interface ChatOutboxEntry extends OutboxEntryBase {
+  kind: 'chat';
+  idempotencyKey: string;
+  sessionId: string;
+  messageId: string;      // The queued user message in that session
+  text: string;
+  files: File[];
+}
+
+export interface IngestionOutboxEntry extends OutboxEntryBase {
+  kind: 'ingestion';
+  batchId: string;
+  idempotencyKeys: string[]; // One per file, kept from the original attempt
+  textContext: string;
+  files: File[];
+  documentChunks?: (DocumentChunk[] | undefined)[]; // Text extracted in the browser, per file
+}
+
+export type OutboxEntry = ChatOutboxEntry | IngestionOutboxEntry;
+
+// --- Ingestion log ---
+// One record per ingestion batch, kept in IndexedDB. Outbox deliveries update the
+// record of the batch they belong to (same batchId).
+
+export type IngestionLogOutcome =
+  | 'success'   // Every file and the text context reached N8N
+  | 'partial'   // Some files failed or were rejected
+  | 'failed'
+  | 'queued'    // Waiting in the outbox
+  | 'cancelled';
+
+export interface IngestionLogFile {
+  name: string;
+  type: string;
+  size: number;
+  hash?: string;
+  status: FileUploadStatus;
+  chunks?: number;
+  error?: string;
+  mapping?: ColumnRole[]; // Set when the rows were sent as records
+}
+
+export interface IngestionLogUrl {
+  url: string;
+  kind: UrlSourceKind;
+  crawl: CrawlOptions;
+  status: FileUploadStatus;
+  pages?: number;
+  error?: string;
+}
+
+export interface IngestionLogEntry {
+  id: string;              // The batchId sent to N8N
+  startedAt: number;
+  durationMs: number;
+  profileId: string;
+  profileName: string;
+  ingestionUrl: string;
+  textContext: string;
+  files: IngestionLogFile[];
+  urls?: IngestionLogUrl[];
+  outcome: IngestionLogOutcome;
+  responseText?: string;   // First response body, truncated
+  error?: string;
+  retainedFiles?: File[];  // Present when file copies were kept for re-runs
+  rerunOf?: string;        // Id of the batch this one re-sent
+}
+
+// --- Knowledge base webhooks ---
+// All requests are POSTed as JSON. Responses may be wrapped in an array
+// (N8N "Respond With: All Incoming Items"); the first item is used.
+
+export interface KnowledgeDocument {
+  id: string;
+  name: string;
+  type: string;       // MIME type
+  size: number;       // Bytes
+  ingestedAt: string; // ISO 8601
+  chunks: number;     // Vector store chunks
+  batchId?: string;   // batchId sent with the original upload
+  metadata?: Record<string, unknown>;
+}
+
+/** Sent to `listDocumentsUrl`. */
+export interface ListDocumentsRequest {
+  action: 'list';
+  search?: string;
+  offset: number;
+  limit: number;
+}
+
+/** Returned by `listDocumentsUrl`. */
+export interface ListDocumentsResponse {
+  documents: KnowledgeDocument[];
+  total?: number;
+}
+
+/** Sent to `deleteDocumentUrl`. The workflow should remove every chunk of the document. */
+export interface DeleteDocumentRequest {
+  action: 'delete';
+  documentId: string;
+}
+
+/** Returned by `deleteDocumentUrl`. */
+export interface DeleteDocumentResponse {
+  success: boolean;
+  deletedChunks?: number;
+  error?: string;
+}
+
+/** Sent to `ingestionUrl` to rebuild a document's chunks from the workflow's stored copy. */
+export interface ReingestDocumentRequest {
+  action: 'reingest';
+  documentId: string;
+  batchId: string;
+}
+
+/**
+ * Sent to `feedbackUrl` when an answer is rated, and again if a comment is added.
+ * The workflow should upsert on `messageId`.
+ */
+export interface FeedbackRequest {
+  action: 'feedback';
+  sessionId: string;
+  messageId: string;
+  question: string;
+  answer: string;
+  rating: FeedbackRating;
+  comment?: string;
+  ratedAt: string; // ISO timestamp
 }
 
 export const SUPPORTED_MIME_TYPES = {
@@ -42,6 +559,12 @@ export const SUPPORTED_MIME_TYPES = {
   'image/webp': 'WEBP',
   'audio/mpeg': 'MP3',
   'audio/wav': 'WAV',
+  'audio/webm': 'WEBM',  // Voice recordings (MediaRecorder)
+  'audio/ogg': 'OGG',
+  'audio/mp4': 'M4A',
   'video/mp4': 'MP4',
-  'video/webm': 'WEBM'
+  'video/webm': 'WEBM',
+  'text/csv': 'CSV',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'XLSX',
+  'application/json': 'JSON'
 };
\ No newline at end of file
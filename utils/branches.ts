@@ -0,0 +1,54 @@
+import { ChatMessage } from "../types";
+
+/**
+ * Conversation branches. `ChatSession.messages` is always the active path, so history,
+ * persistence and export keep working on a plain list. The first message of a branched
+ * tail carries the other versions of that tail in `alternatives`.
+ */
+
+const stripVersions = ({ alternatives, alternativeIndex, ...message }: ChatMessage): ChatMessage => message;
+
+/**
+ * Every version of the conversation from `index` on, in creation order.
+ */
+export const getVersions = (messages: ChatMessage[], index: number): ChatMessage[][] => {
+  const head = messages[index];
+  if (!head) return [];
+  const active = [stripVersions(head), ...messages.slice(index + 1)];
+  const others = head.alternatives ?? [];
+  const activeIndex = Math.min(head.alternativeIndex ?? others.length, others.length);
+  return [...others.slice(0, activeIndex), active, ...others.slice(activeIndex)];
+};
+
+export const getVersionInfo = (message: ChatMessage): { index: number; count: number } => {
+  const count = (message.alternatives?.length ?? 0) + 1;
+  return { index: Math.min(message.alternativeIndex ?? count - 1, count - 1), count };
+};
+
+const withActiveVersion = (messages: ChatMessage[], index: number, versions: ChatMessage[][], active: number): ChatMessage[] => {
+  const [head, ...rest] = versions[active];
+  const alternatives = versions.filter((_, i) => i !== active);
+  return [
+    ...messages.slice(0, index),
+    alternatives.length > 0 ? { ...head, alternatives, alternativeIndex: active } : head,
+    ...rest
+  ];
+};
+
+/**
+ * Replaces the conversation from `index` on with `tail`, keeping the old tail as a version.
+ */
+export const branchFrom = (messages: ChatMessage[], index: number, tail: ChatMessage[]): ChatMessage[] => {
+  if (tail.length === 0) return messages.slice(0, index);
+  const versions = [...getVersions(messages, index), tail.map(stripVersions)];
+  return withActiveVersion(messages, index, versions, versions.length - 1);
+};
+
+/**
+ * Makes another version of the conversation from `index` on the active path.
+ */
+export const switchVersion = (messages: ChatMessage[], index: number, version: number): ChatMessage[] => {
+  const versions = getVersions(messages, index);
+  if (!versions[version]) return messages;
+  return withActiveVersion(messages, index, versions, version);
+};
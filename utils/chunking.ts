@@ -0,0 +1,51 @@
+import { DocumentChunk, ExtractedSection } from "../types";
+import { MAX_CHUNK_OVERLAP_RATIO, MIN_CHUNK_SIZE } from "../constants";
+
+// How far back from a hard cut to look for a paragraph, sentence or word boundary
+const BOUNDARY_LOOKBACK = 0.2;
+
+const findBreak = (text: string, start: number, hardEnd: number): number => {
+  if (hardEnd >= text.length) return text.length;
+  const minEnd = start + Math.floor((hardEnd - start) * (1 - BOUNDARY_LOOKBACK));
+  const window = text.slice(minEnd, hardEnd);
+  for (const pattern of [/\n\s*\n/g, /[.!?]\s/g, /\s/g]) {
+    let last = -1;
+    for (const match of window.matchAll(pattern)) last = match.index! + match[0].length;
+    if (last > 0) return minEnd + last;
+  }
+  return hardEnd;
+};
+
+export const clampChunkSize = (size: number) => Math.max(MIN_CHUNK_SIZE, Math.floor(size) || 0);
+
+/**
+ * Keeps the overlap below half the chunk size, so each chunk starts well past the previous one.
+ */
+export const clampChunkOverlap = (overlap: number, size: number) =>
+  Math.max(0, Math.min(Math.floor(overlap) || 0, Math.ceil(clampChunkSize(size) * MAX_CHUNK_OVERLAP_RATIO) - 1));
+
+/**
+ * Splits extracted sections into overlapping chunks of roughly `size` characters,
+ * preferring to break on paragraph, sentence or word boundaries. Chunks never span
+ * sections, so each keeps the page / section it came from.
+ */
+export const chunkSections = (sections: ExtractedSection[], size: number, overlap: number): DocumentChunk[] => {
+  const chunkSize = clampChunkSize(size);
+  const overlapChars = clampChunkOverlap(overlap, size);
+  const chunks: DocumentChunk[] = [];
+
+  sections.forEach(({ text, page, section }) => {
+    let start = 0;
+    while (start < text.length) {
+      const end = findBreak(text, start, start + chunkSize);
+      const chunkText = text.slice(start, end).trim();
+      if (chunkText) {
+        chunks.push({ index: chunks.length, text: chunkText, page, section, start, end });
+      }
+      if (end >= text.length) break;
+      start = Math.max(start + 1, end - overlapChars);
+    }
+  });
+
+  return chunks;
+};
@@ -0,0 +1,5 @@
+/**
+ * Narrows parsed JSON to a plain object, so its fields can be read and type-checked one by one.
+ */
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
@@ -0,0 +1,25 @@
+/**
+ * Splits a path expression such as `0.output`, `data.answer` or `choices[0].message.content`
+ * into its segments.
+ */
+const parsePath = (path: string): string[] =>
+  path
+    .replace(/\[(\w+)\]/g, '.$1')
+    .split('.')
+    .map(segment => segment.trim())
+    .filter(Boolean);
+
+/**
+ * Reads a value from parsed JSON by path. Numeric segments index into arrays.
+ * Returns undefined when any segment is missing.
+ */
+export const getByPath = (data: unknown, path: string): unknown => {
+  let current: unknown = data;
+  for (const segment of parsePath(path)) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = Array.isArray(current) && /^\d+$/.test(segment)
+      ? current[Number(segment)]
+      : (current as Record<string, unknown>)[segment];
+  }
+  return current;
+};
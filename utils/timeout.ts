@@ -0,0 +1,39 @@
+export interface RequestTimer {
+  signal: AbortSignal;   // Aborts on timeout or when the caller's signal aborts
+  reset: () => void;     // Restarts the countdown, e.g. when a streamed chunk arrives
+  clear: () => void;     // Call once the request has settled
+  timedOut: () => boolean;
+}
+
+/**
+ * Wraps an optional caller signal with an inactivity timeout. A timeout of 0 never fires.
+ */
+export const createRequestTimer = (timeoutSeconds: number, signal?: AbortSignal): RequestTimer => {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let didTimeOut = false;
+
+  const onCallerAbort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) onCallerAbort();
+  signal?.addEventListener('abort', onCallerAbort, { once: true });
+
+  const reset = () => {
+    clearTimeout(timer);
+    if (timeoutSeconds <= 0) return;
+    timer = setTimeout(() => {
+      didTimeOut = true;
+      controller.abort(new DOMException('Request timed out', 'AbortError'));
+    }, timeoutSeconds * 1000);
+  };
+  reset();
+
+  return {
+    signal: controller.signal,
+    reset,
+    clear: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onCallerAbort);
+    },
+    timedOut: () => didTimeOut
+  };
+};
@@ -0,0 +1,13 @@
+/**
+ * True for absolute http(s) URLs, the only links rendered from workflow replies or imported
+ * files; `javascript:` and `data:` URLs would run or load content when clicked.
+ */
+export const isHttpUrl = (value: unknown): value is string => {
+  if (typeof value !== 'string') return false;
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch (e) {
+    return false;
+  }
+};
@@ -0,0 +1,25 @@
+// Recorded clips are recognized by name, which survives the outbox and retries
+const VOICE_FILE_PREFIX = 'voice-message-';
+
+// In order of preference; Safari only records audio/mp4
+const RECORDING_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/ogg;codecs=opus', 'audio/mp4'];
+
+const EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a'
+};
+
+export const isVoiceRecordingSupported = (): boolean =>
+  typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+export const getRecordingMimeType = (): string | undefined =>
+  RECORDING_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+
+export const createVoiceFile = (blob: Blob): File => {
+  const type = blob.type.split(';')[0] || 'audio/webm';
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  return new File([blob], `${VOICE_FILE_PREFIX}${stamp}.${EXTENSIONS[type] ?? 'webm'}`, { type });
+};
+
+export const isVoiceFile = (name: string): boolean => name.startsWith(VOICE_FILE_PREFIX);
@@ -0,0 +1,27 @@
+import path from 'path';
+import { defineConfig } from 'vite';
+import react from '@vitejs/plugin-react';
+
+// Builds the embeddable widget: n8n-chat.js (the loader host pages include) and
+// chat-widget.html (the page loaded in its iframe). Deploy both to the same folder.
+export default defineConfig({
+  base: './',
+  plugins: [react()],
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, '.'),
+    }
+  },
+  build: {
+    outDir: 'dist-widget',
+    rollupOptions: {
+      input: {
+        'chat-widget': path.resolve(__dirname, 'chat-widget.html'),
+        'n8n-chat': path.resolve(__dirname, 'widget/loader.ts'),
+      },
+      output: {
+        entryFileNames: (chunk) => chunk.name === 'n8n-chat' ? 'n8n-chat.js' : 'assets/[name]-[hash].js',
+      }
+    }
+  }
+});
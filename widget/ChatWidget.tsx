@@ -0,0 +1,201 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Bot, X } from 'lucide-react';
+import { ChatInterface } from '../components/ChatInterface';
+import { sendChatMessage } from '../services/n8nService';
+import { getErrorAdvice, getErrorKind } from '../services/errors';
+import { ChatMessage, MessageRole, WebhookConfig } from '../types';
+import { DEFAULT_CONFIG, SESSION_STORAGE_WIDGET_KEY } from '../constants';
+import { createId } from '../utils/id';
+import { HostCommand, isHostMessage, WidgetEvent, WidgetOptions, WidgetUser, WIDGET_SOURCE } from './protocol';
+
+type FrameOptions = Omit<WidgetOptions, 'frameUrl'>;
+
+interface StoredConversation {
+  chatUrl: string;
+  sessionId: string;
+  messages: ChatMessage[];
+}
+
+// Origin of the host page, taken from its `init` command. Only `ready` is sent before that,
+// to any origin; conversation events never leave for a page the widget was not set up by.
+let hostOrigin: string | null = null;
+
+const postToParent = (event: WidgetEvent) => {
+  const targetOrigin = event.type === 'ready' ? '*' : hostOrigin;
+  if (targetOrigin) window.parent.postMessage({ ...event, source: WIDGET_SOURCE }, targetOrigin);
+};
+
+const emitMessage = (message: ChatMessage) => {
+  postToParent({
+    type: 'message',
+    message: {
+      id: message.id,
+      role: message.role === MessageRole.USER ? 'user' : 'assistant',
+      content: message.content,
+      timestamp: message.timestamp,
+      isError: message.isError
+    }
+  });
+};
+
+const toInitialMessages = (options: FrameOptions): ChatMessage[] =>
+  (options.initialMessages ?? []).map((item, index) => {
+    const { role, content } = typeof item === 'string' ? { role: 'assistant' as const, content: item } : item;
+    return {
+      id: `initial-${index}`,
+      role: role === 'user' ? MessageRole.USER : MessageRole.ASSISTANT,
+      content,
+      timestamp: Date.now()
+    };
+  });
+
+// The conversation survives navigation on the host site for as long as the tab is open
+const loadConversation = (options: FrameOptions): StoredConversation => {
+  try {
+    const stored: StoredConversation | null = JSON.parse(sessionStorage.getItem(SESSION_STORAGE_WIDGET_KEY) || 'null');
+    if (stored && stored.chatUrl === options.chatUrl) return stored;
+  } catch (e) {
+    console.error("Error loading widget conversation", e);
+  }
+  return { chatUrl: options.chatUrl, sessionId: createId(), messages: toInitialMessages(options) };
+};
+
+/**
+ * The chat inside the widget iframe. Waits for the loader's `init` command,
+ * then talks to the chat webhook directly.
+ */
+export const ChatWidget: React.FC = () => {
+  const [options, setOptions] = useState<FrameOptions | null>(null);
+  const [user, setUser] = useState<WidgetUser | undefined>();
+  const [conversation, setConversation] = useState<StoredConversation | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    const handleCommand = (event: MessageEvent) => {
+      if (event.source !== window.parent || !isHostMessage(event.data)) return;
+      if (hostOrigin && hostOrigin !== '*' && event.origin !== hostOrigin) return;
+      const command: HostCommand = event.data;
+      if (command.type === 'init') {
+        // An opaque origin (sandboxed or file:// host) cannot be targeted by name
+        hostOrigin = event.origin === 'null' ? '*' : event.origin;
+        setOptions(command.options);
+        setUser(command.options.user);
+        setConversation(loadConversation(command.options));
+      } else if (command.type === 'identify') {
+        setUser(command.user);
+      }
+    };
+    window.addEventListener('message', handleCommand);
+    postToParent({ type: 'ready' });
+    return () => window.removeEventListener('message', handleCommand);
+  }, []);
+
+  useEffect(() => {
+    if (conversation && !conversation.messages.some(m => m.isStreaming)) {
+      sessionStorage.setItem(SESSION_STORAGE_WIDGET_KEY, JSON.stringify(conversation));
+    }
+  }, [conversation]);
+
+  const updateMessages = (updater: (prev: ChatMessage[]) => ChatMessage[]) => {
+    setConversation(prev => prev && { ...prev, messages: updater(prev.messages) });
+  };
+
+  const handleSendMessage = async (text: string, attachments: File[] = []) => {
+    if (!options || !conversation) return;
+    const config: WebhookConfig = { ...DEFAULT_CONFIG, chatUrl: options.chatUrl };
+    const history = conversation.messages;
+
+    const userMsg: ChatMessage = {
+      id: createId(),
+      role: MessageRole.USER,
+      content: text,
+      timestamp: Date.now(),
+      attachments: attachments.map(f => ({ name: f.name, type: f.type, size: f.size }))
+    };
+    updateMessages(prev => [...prev, userMsg]);
+    emitMessage(userMsg);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsLoading(true);
+    const botMsgId = createId();
+    let hasStarted = false;
+
+    try {
+      const response = await sendChatMessage(config, conversation.sessionId, text, history, attachments, {
+        signal: controller.signal,
+        extraFields: user ? { user: JSON.stringify(user) } : undefined,
+        onToken: (token) => {
+          const isFirstToken = !hasStarted;
+          hasStarted = true;
+          updateMessages(prev => isFirstToken
+            ? [...prev, { id: botMsgId, role: MessageRole.ASSISTANT, content: token, timestamp: Date.now(), isStreaming: true }]
+            : prev.map(m => m.id === botMsgId ? { ...m, content: m.content + token } : m)
+          );
+        }
+      });
+
+      const botMsg: ChatMessage = {
+        id: botMsgId,
+        role: MessageRole.ASSISTANT,
+        content: response.text,
+        timestamp: Date.now(),
+        sources: response.sources.length > 0 ? response.sources : undefined,
+        suggestions: response.suggestions.length > 0 ? response.suggestions : undefined
+      };
+      updateMessages(prev => hasStarted ? prev.map(m => m.id === botMsgId ? botMsg : m) : [...prev, botMsg]);
+      emitMessage(botMsg);
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        updateMessages(prev => prev.map(m => m.id === botMsgId ? { ...m, isStreaming: false } : m));
+        return;
+      }
+
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      const advice = getErrorAdvice(getErrorKind(error), errorMessage);
+      const errorMsg: ChatMessage = {
+        id: botMsgId,
+        role: MessageRole.ASSISTANT,
+        content: `Error: ${errorMessage}` + (advice ? `\n\n💡 ${advice}` : ''),
+        timestamp: Date.now(),
+        isError: true
+      };
+      updateMessages(prev => [...prev.filter(m => m.id !== botMsgId), errorMsg]);
+      emitMessage(errorMsg);
+    } finally {
+      abortRef.current = null;
+      setIsLoading(false);
+    }
+  };
+
+  if (!options || !conversation) return null;
+
+  const isDark = options.theme?.mode === 'dark';
+  const primaryColor = options.theme?.primaryColor || '#4f46e5';
+
+  return (
+    <div className={`flex flex-col h-full ${isDark ? 'bg-slate-900' : 'bg-slate-50'}`}>
+      <header className="flex items-center gap-2 px-4 py-3 text-white flex-shrink-0" style={{ backgroundColor: primaryColor }}>
+        <Bot className="w-5 h-5" />
+        <span className="font-semibold truncate">{options.title || 'Chat'}</span>
+        <button
+          onClick={() => postToParent({ type: 'close' })}
+          className="ml-auto p-1 rounded-md hover:bg-white/20 transition-colors"
+          title="Close"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </header>
+      <div className="flex-1 min-h-0 p-2">
+        <ChatInterface
+          messages={conversation.messages}
+          onSendMessage={handleSendMessage}
+          isLoading={isLoading}
+          onStop={() => abortRef.current?.abort()}
+          hasConfig={!!options.chatUrl}
+        />
+      </div>
+    </div>
+  );
+};
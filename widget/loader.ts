@@ -0,0 +1,198 @@
+import {
+  HOST_SOURCE,
+  HostCommand,
+  isHostMessage,
+  isWidgetMessage,
+  WIDGET_SOURCE,
+  WidgetEvent,
+  WidgetOptions,
+  WidgetUser
+} from './protocol';
+
+type WidgetEventType = WidgetEvent['type'];
+type WidgetListener = (event: WidgetEvent) => void;
+
+export interface N8NChatApi {
+  init: (options: WidgetOptions) => void;
+  open: () => void;
+  close: () => void;
+  toggle: () => void;
+  identify: (user: WidgetUser) => void;
+  on: (type: WidgetEventType, listener: WidgetListener) => void;
+  off: (type: WidgetEventType, listener: WidgetListener) => void;
+  destroy: () => void;
+}
+
+declare global {
+  interface Window {
+    N8NChat: N8NChatApi;
+  }
+}
+
+const DEFAULT_PRIMARY_COLOR = '#4f46e5';
+
+// lucide "message-circle" and "x", inlined so the loader has no dependencies
+const CHAT_ICON = '<svg xmlns="http://www.w3.org/2000/svg" width="26" height="26" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M7.9 20A9 9 0 1 0 4 16.1L2 22Z"/></svg>';
+const CLOSE_ICON = '<svg xmlns="http://www.w3.org/2000/svg" width="26" height="26" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>';
+
+const buildStyles = (options: WidgetOptions) => {
+  const side = options.position === 'bottom-left' ? 'left' : 'right';
+  return `
+    :host { all: initial; }
+    .launcher {
+      position: fixed; bottom: 20px; ${side}: 20px; z-index: 2147483647;
+      width: 56px; height: 56px; border: none; border-radius: 50%; cursor: pointer;
+      display: flex; align-items: center; justify-content: center;
+      color: #fff; background: ${options.theme?.primaryColor || DEFAULT_PRIMARY_COLOR};
+      box-shadow: 0 10px 25px rgba(15, 23, 42, 0.25);
+      transition: transform 0.15s ease;
+    }
+    .launcher:hover { transform: scale(1.05); }
+    .panel {
+      position: fixed; bottom: 88px; ${side}: 20px; z-index: 2147483647;
+      width: 400px; height: 600px; max-width: calc(100vw - 40px); max-height: calc(100vh - 108px);
+      border-radius: 16px; overflow: hidden; background: #fff;
+      box-shadow: 0 20px 50px rgba(15, 23, 42, 0.3);
+      display: none;
+    }
+    .panel.open { display: block; }
+    iframe { width: 100%; height: 100%; border: none; }
+    @media (max-width: 480px) {
+      .panel { bottom: 0; ${side}: 0; width: 100vw; height: 100vh; max-width: none; max-height: none; border-radius: 0; }
+      .panel.open + .launcher { display: none; }
+    }
+  `;
+};
+
+const resolveFrameUrl = (options: WidgetOptions) =>
+  options.frameUrl ? new URL(options.frameUrl, window.location.href) : new URL(/* @vite-ignore */ 'chat-widget.html', import.meta.url);
+
+/**
+ * The script host pages include. Renders a launcher button and the chat iframe in a
+ * shadow root, and bridges between `window.N8NChat`, host postMessage commands and the frame.
+ */
+const createWidget = (): N8NChatApi => {
+  const listeners = new Map<WidgetEventType, Set<WidgetListener>>();
+  let options: WidgetOptions | null = null;
+  let host: HTMLElement | null = null;
+  let panel: HTMLElement | null = null;
+  let launcher: HTMLButtonElement | null = null;
+  let iframe: HTMLIFrameElement | null = null;
+  let frameOrigin = '';
+  let isOpen = false;
+
+  const emit = (event: WidgetEvent) => {
+    listeners.get(event.type)?.forEach(listener => {
+      try {
+        listener(event);
+      } catch (e) {
+        console.error("Error in N8NChat listener", e);
+      }
+    });
+    // '/' targets this window's own origin, which also works when it is opaque ('null')
+    window.postMessage({ ...event, source: WIDGET_SOURCE }, '/');
+  };
+
+  const postToFrame = (command: HostCommand) => {
+    iframe?.contentWindow?.postMessage({ ...command, source: HOST_SOURCE }, frameOrigin);
+  };
+
+  const setOpen = (open: boolean) => {
+    if (!panel || !launcher || open === isOpen) return;
+    isOpen = open;
+    panel.classList.toggle('open', open);
+    launcher.innerHTML = open ? CLOSE_ICON : CHAT_ICON;
+    launcher.setAttribute('aria-label', open ? 'Close chat' : 'Open chat');
+    emit({ type: open ? 'open' : 'close' });
+  };
+
+  const handleMessage = (event: MessageEvent) => {
+    if (iframe && event.source === iframe.contentWindow && isWidgetMessage(event.data)) {
+      const { source: _source, ...widgetEvent } = event.data;
+      if (widgetEvent.type === 'ready' && options) {
+        const { frameUrl: _frameUrl, ...frameOptions } = options;
+        postToFrame({ type: 'init', options: frameOptions });
+      }
+      if (widgetEvent.type === 'close') {
+        setOpen(false);
+        return;
+      }
+      emit(widgetEvent);
+      return;
+    }
+
+    // Commands posted by the host page itself
+    if (event.source === window && isHostMessage(event.data)) {
+      const { source: _source, ...command } = event.data;
+      if (command.type === 'init') api.init(command.options);
+      else if (command.type === 'open') setOpen(true);
+      else if (command.type === 'close') setOpen(false);
+      else if (command.type === 'toggle') setOpen(!isOpen);
+      else if (command.type === 'identify') api.identify(command.user);
+    }
+  };
+
+  const api: N8NChatApi = {
+    init: (nextOptions) => {
+      if (!nextOptions?.chatUrl) {
+        console.error("N8NChat.init: chatUrl is required");
+        return;
+      }
+      api.destroy();
+      options = nextOptions;
+
+      const frameUrl = resolveFrameUrl(nextOptions);
+      frameOrigin = frameUrl.origin;
+
+      host = document.createElement('div');
+      host.id = 'n8n-chat-widget';
+      const shadow = host.attachShadow({ mode: 'open' });
+
+      const style = document.createElement('style');
+      style.textContent = buildStyles(nextOptions);
+
+      panel = document.createElement('div');
+      panel.className = 'panel';
+      iframe = document.createElement('iframe');
+      iframe.title = nextOptions.title || 'Chat';
+      iframe.allow = 'clipboard-write';
+      iframe.src = frameUrl.href;
+      panel.appendChild(iframe);
+
+      launcher = document.createElement('button');
+      launcher.className = 'launcher';
+      launcher.type = 'button';
+      launcher.innerHTML = CHAT_ICON;
+      launcher.setAttribute('aria-label', 'Open chat');
+      launcher.addEventListener('click', () => setOpen(!isOpen));
+
+      shadow.append(style, panel, launcher);
+      document.body.appendChild(host);
+    },
+    open: () => setOpen(true),
+    close: () => setOpen(false),
+    toggle: () => setOpen(!isOpen),
+    identify: (user) => {
+      if (options) options = { ...options, user };
+      postToFrame({ type: 'identify', user });
+    },
+    on: (type, listener) => {
+      if (!listeners.has(type)) listeners.set(type, new Set());
+      listeners.get(type)!.add(listener);
+    },
+    off: (type, listener) => {
+      listeners.get(type)?.delete(listener);
+    },
+    destroy: () => {
+      host?.remove();
+      host = panel = launcher = iframe = null;
+      options = null;
+      isOpen = false;
+    }
+  };
+
+  window.addEventListener('message', handleMessage);
+  return api;
+};
+
+window.N8NChat = window.N8NChat ?? createWidget();
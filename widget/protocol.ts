@@ -0,0 +1,67 @@
+/**
+ * Messages exchanged between the host page, the loader script (n8n-chat.js)
+ * and the chat iframe. Every message carries a `source` tag so unrelated
+ * postMessage traffic on the page is ignored.
+ */
+
+// Commands sent to the widget, by the loader or directly by the host page via window.postMessage
+export const HOST_SOURCE = 'n8n-chat-host';
+// Events sent by the widget; the loader re-posts them to the host window
+export const WIDGET_SOURCE = 'n8n-chat-widget';
+
+export type WidgetPosition = 'bottom-right' | 'bottom-left';
+
+export interface WidgetTheme {
+  mode?: 'light' | 'dark';
+  primaryColor?: string; // Any CSS color, used for the launcher and header
+}
+
+export interface WidgetInitialMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface WidgetOptions {
+  chatUrl: string;
+  title?: string;
+  theme?: WidgetTheme;
+  position?: WidgetPosition;
+  // Plain strings are shown as assistant messages, e.g. a greeting
+  initialMessages?: (string | WidgetInitialMessage)[];
+  user?: WidgetUser;
+  // Where the iframe page is served; defaults to chat-widget.html next to n8n-chat.js
+  frameUrl?: string;
+}
+
+// Sent to the workflow as JSON in the `user` form field
+export type WidgetUser = Record<string, string | number | boolean>;
+
+export type HostCommand =
+  | { type: 'init'; options: Omit<WidgetOptions, 'frameUrl'> }
+  | { type: 'open' }
+  | { type: 'close' }
+  | { type: 'toggle' }
+  | { type: 'identify'; user: WidgetUser };
+
+export interface WidgetMessageEvent {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: number;
+  isError?: boolean;
+}
+
+export type WidgetEvent =
+  | { type: 'ready' }
+  | { type: 'open' }
+  | { type: 'close' }
+  | { type: 'message'; message: WidgetMessageEvent };
+
+export type HostMessage = HostCommand & { source: typeof HOST_SOURCE };
+export type WidgetMessage = WidgetEvent & { source: typeof WIDGET_SOURCE };
+
+export const isHostMessage = (data: unknown): data is HostMessage =>
+  typeof data === 'object' && data !== null && (data as HostMessage).source === HOST_SOURCE;
+
+export const isWidgetMessage = (data: unknown): data is WidgetMessage =>
+  typeof data === 'object' && data !== null && (data as WidgetMessage).source === WIDGET_SOURCE;